@@ -0,0 +1,113 @@
+import { CancelledError } from './errors'
+
+/**
+ * Signals that an operation should be abandoned. Create a token, pass it to any number of RPC
+ * requests, and call cancel() to make them all reject with CancelledError.
+ *
+ * const token = new CancellationToken()
+ * setTimeout(() => token.cancel(), 1000)
+ * await client.getEvmLogsAsync(filter, { cancellationToken: token })
+ */
+export class CancellationToken {
+  private _isCancelled: boolean = false
+  private _listeners: Array<() => void> = []
+
+  get isCancelled(): boolean {
+    return this._isCancelled
+  }
+
+  /**
+   * Cancels all the operations this token was passed to, subsequent calls have no effect.
+   */
+  cancel() {
+    if (this._isCancelled) {
+      return
+    }
+    this._isCancelled = true
+    const listeners = this._listeners
+    this._listeners = []
+    listeners.forEach(listener => listener())
+  }
+
+  /**
+   * Registers a function that will be called when the token is cancelled, or right away if the
+   * token has already been cancelled.
+   * @returns A function that unregisters the listener, it should be called once the operation
+   *          the listener was registered for completes.
+   */
+  onCancelled(listener: () => void): () => void {
+    if (this._isCancelled) {
+      listener()
+      return () => {
+        // the listener was never registered, so there's nothing to unregister
+      }
+    }
+    this._listeners.push(listener)
+    return () => {
+      const index = this._listeners.indexOf(listener)
+      if (index !== -1) {
+        this._listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * @throws CancelledError if the token has been cancelled.
+   */
+  throwIfCancelled() {
+    if (this._isCancelled) {
+      throw new CancelledError()
+    }
+  }
+}
+
+/**
+ * Runs an operation that should be abandoned as soon as the given token is cancelled.
+ * @param token Cancellation token, if not set the operation can't be cancelled.
+ * @param run Starts the operation.
+ * @param onCancelled Cleans up after the operation is cancelled.
+ * @returns A promise that will be resolved with the result of the operation, or rejected with
+ *          CancelledError if the token is cancelled first.
+ */
+export function runCancellableAsync<T>(
+  token: CancellationToken | undefined,
+  run: () => Promise<T>,
+  onCancelled?: () => void
+): Promise<T> {
+  if (!token) {
+    return run()
+  }
+  if (token.isCancelled) {
+    return Promise.reject(new CancelledError())
+  }
+  return new Promise<T>((resolve, reject) => {
+    const unregister = token.onCancelled(() => {
+      if (onCancelled) {
+        onCancelled()
+      }
+      reject(new CancelledError())
+    })
+    run().then(
+      result => {
+        unregister()
+        resolve(result)
+      },
+      err => {
+        unregister()
+        reject(err)
+      }
+    )
+  })
+}
+
+/**
+ * Waits for the given number of milliseconds, or until the given token is cancelled.
+ */
+export function delayAsync(ms: number, token?: CancellationToken): Promise<void> {
+  let timer: any
+  return runCancellableAsync(
+    token,
+    () => new Promise<void>(resolve => (timer = setTimeout(resolve, ms))),
+    () => clearTimeout(timer)
+  )
+}
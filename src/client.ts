@@ -3,11 +3,41 @@ import { Message } from 'google-protobuf'
 import EventEmitter from 'events'
 import retry from 'retry'
 
-import { VMType, EvmTxReceipt, EvmTxObject, EthBlockInfo } from './proto/loom_pb'
-import { Uint8ArrayToB64, B64ToUint8Array, bufferToProtobufBytes } from './crypto-utils'
+import {
+  VMType,
+  EvmTxReceipt,
+  EvmTxObject,
+  EthBlockInfo,
+  SignedTx,
+  EventData,
+  EventDataList
+} from './proto/loom_pb'
+import {
+  Uint8ArrayToB64,
+  B64ToUint8Array,
+  bufferToProtobufBytes,
+  bytesToHex
+} from './crypto-utils'
 import { Address, LocalAddress } from './address'
+import { signTxAsync } from './tx-builder'
+import { NonceManager } from './nonce-manager'
+import {
+  TxCheckError,
+  TxDeliverError,
+  InvalidNonceError,
+  TimeoutError,
+  RPCError,
+  CancelledError
+} from './errors'
+import { CancellationToken, delayAsync } from './cancellation'
 import { WSRPCClient, IJSONRPCEvent } from './internal/ws-rpc-client'
-import { RPCClientEvent, IJSONRPCClient } from './internal/json-rpc-client'
+import {
+  RPCClientEvent,
+  IJSONRPCClient,
+  IRequestOptions,
+  ConnectionState,
+  getConnectionState
+} from './internal/json-rpc-client'
 
 interface ITxHandlerResult {
   code?: number
@@ -22,8 +52,23 @@ interface IBroadcastTxCommitResult {
   height: string // int64
 }
 
+interface IBroadcastTxResult extends ITxHandlerResult {
+  hash: string
+}
+
+interface ITxResult {
+  hash: string
+  height: string // int64
+  tx_result: ITxHandlerResult
+}
+
 const log = debug('client')
 
+/** JSON-RPC error code the node uses for errors that aren't caused by a malformed request. */
+const JSON_RPC_INTERNAL_ERROR = -32603
+/** Matches the error data the node responds with when asked for a tx it doesn't know about. */
+const TX_NOT_FOUND_PATTERN = /^Tx \([0-9A-F]*\) not found$/i
+
 /**
  * Middleware handlers are expected to transform the input data and return the result.
  * Handlers should not modify the original input data in any way.
@@ -32,6 +77,39 @@ export interface ITxMiddlewareHandler {
   Handle(txData: Readonly<Uint8Array>): Promise<Uint8Array>
 }
 
+/**
+ * Options that can be specified for individual read requests, in addition to a timeout and a
+ * cancellation token.
+ */
+export interface IQueryOptions extends IRequestOptions {
+  /** Set to `true` to skip any caching query middleware, e.g. `QueryCache`. */
+  bypassCache?: boolean
+}
+
+/** Read request that's about to be sent to the DAppChain. */
+export interface IQueryRequest {
+  /** RPC method name, e.g. "query". */
+  method: string
+  /** RPC parameters. */
+  params: any
+  /** Options specified by the caller. */
+  opts?: IQueryOptions
+}
+
+/**
+ * Query middleware handlers are invoked for each read request made by the client. A handler can
+ * pass the request (or a modified copy of it) on to the next handler by calling `next`, and can
+ * inspect or transform the response it gets back. A handler can also answer the request itself
+ * by not calling `next` at all.
+ * Handlers should not modify the original request in any way.
+ */
+export interface IQueryMiddlewareHandler {
+  Handle(
+    request: Readonly<IQueryRequest>,
+    next: (request: IQueryRequest) => Promise<any>
+  ): Promise<any>
+}
+
 export enum ClientEvent {
   /**
    * Emitted when an event is received from a smart contract.
@@ -52,7 +130,49 @@ export enum ClientEvent {
    * Emitted when a connection with the DAppChain is closed.
    * Listener will receive INetEventArgs.
    */
-  Disconnected = 'disconnected'
+  Disconnected = 'disconnected',
+  /**
+   * Emitted when a tx has been signed (i.e. after all the tx middleware has been applied).
+   * Listener will receive ITxBuiltEventArgs.
+   */
+  TxBuilt = 'txBuilt',
+  /**
+   * Emitted when a tx is about to be sent to the DAppChain.
+   * Listener will receive ITxSentEventArgs.
+   */
+  TxSent = 'txSent',
+  /**
+   * Emitted when a tx rejected because of a bad nonce is about to be resent.
+   * Listener will receive INonceRetryEventArgs.
+   */
+  NonceRetry = 'nonceRetry',
+  /**
+   * Emitted when a tx has been committed to a block.
+   * Listener will receive ITxCommittedEventArgs.
+   */
+  TxCommitted = 'txCommitted',
+  /**
+   * Emitted when a tx could not be committed.
+   * Listener will receive ITxFailedEventArgs.
+   */
+  TxFailed = 'txFailed',
+  /**
+   * Emitted when an EVM subscription or filter couldn't be recreated after the client reconnected
+   * to the DAppChain, the subscription will no longer receive any events.
+   * Listener will receive IEvmSubscriptionLostEventArgs.
+   */
+  EvmSubscriptionLost = 'evmSubscriptionLost',
+  /**
+   * Emitted when the state of a connection to the DAppChain changes.
+   * Listener will receive IConnectionStateChangedEventArgs.
+   */
+  ConnectionStateChanged = 'connectionStateChanged',
+  /**
+   * Emitted when a poll for new contract events fails, only emitted by clients that poll for
+   * events, e.g. when connected to the DAppChain via HTTP.
+   * Listener will receive IEventPollErrorEventArgs.
+   */
+  EventPollError = 'eventPollError'
 }
 
 export interface IClientEventArgs {
@@ -71,6 +191,97 @@ export interface IClientErrorEventArgs extends IClientEventArgs {
   error?: any // could be IJSONRPCError, or something else
 }
 
+/** Event that's emitted when a tx has been signed. */
+export interface ITxBuiltEventArgs extends IClientEventArgs {
+  kind: ClientEvent.TxBuilt
+  /** Signed tx. */
+  txBytes: Uint8Array
+}
+
+/** Event that's emitted when a tx is about to be sent to the DAppChain. */
+export interface ITxSentEventArgs extends IClientEventArgs {
+  kind: ClientEvent.TxSent
+  /** Signed tx. */
+  txBytes: Uint8Array
+  /** RPC method used to send the tx, e.g. "broadcast_tx_commit". */
+  method: string
+}
+
+/** Event that's emitted when a tx rejected because of a bad nonce is about to be resent. */
+export interface INonceRetryEventArgs extends IClientEventArgs {
+  kind: ClientEvent.NonceRetry
+  /** Number of the attempt that's about to be made, the first retry is attempt 2. */
+  attempt: number
+  /** Error the previous attempt failed with. */
+  error: InvalidNonceError
+}
+
+/** Event that's emitted when a tx has been committed to a block. */
+export interface ITxCommittedEventArgs extends IClientEventArgs {
+  kind: ClientEvent.TxCommitted
+  /** Hex encoded hash of the tx. */
+  hash: string
+  /** Height of the block the tx was committed in. */
+  height: number
+}
+
+/** Identifies the reason a tx could not be committed. */
+export enum TxFailureReason {
+  /** The tx nonce didn't match the one expected by the DAppChain, even after retrying. */
+  InvalidNonce = 'invalidNonce',
+  /** The tx was rejected by the DAppChain before it was committed. */
+  CheckTx = 'checkTx',
+  /** The tx was committed, but the contract that processed it returned an error. */
+  DeliverTx = 'deliverTx',
+  /** No response was received from the DAppChain in time. */
+  Timeout = 'timeout',
+  /** The tx was abandoned via a cancellation token before it was committed. */
+  Cancelled = 'cancelled',
+  /** Any other error, e.g. the connection to the DAppChain failed. */
+  Other = 'other'
+}
+
+/** Event that's emitted when a tx could not be committed. */
+export interface ITxFailedEventArgs extends IClientEventArgs {
+  kind: ClientEvent.TxFailed
+  reason: TxFailureReason
+  /** Error the tx failed with. */
+  error: Error
+  /** Hex encoded hash of the tx, if known. */
+  hash?: string
+  /** Height of the block the tx was committed in, if known. */
+  height?: number
+}
+
+/** Event that's emitted when an EVM subscription or filter couldn't be recreated. */
+export interface IEvmSubscriptionLostEventArgs extends IClientEventArgs {
+  kind: ClientEvent.EvmSubscriptionLost
+  /** Id of the subscription or filter, as returned when it was created. */
+  id: string
+  /** Error the subscription failed to be recreated with. */
+  error: Error
+}
+
+/** Event that's emitted when a poll for new contract events fails. */
+export interface IEventPollErrorEventArgs extends IClientEventArgs {
+  kind: ClientEvent.EventPollError
+  /** Error the poll failed with. */
+  error: any
+}
+
+/** Event that's emitted when the state of a connection to the DAppChain changes. */
+export interface IConnectionStateChangedEventArgs extends IClientEventArgs {
+  kind: ClientEvent.ConnectionStateChanged
+  state: ConnectionState
+  /** Number of reconnection attempts made since the connection was last open. */
+  attempt: number
+  /**
+   * Number of milliseconds until the next reconnection attempt, only set when the state is
+   * `ConnectionState.Reconnecting`.
+   */
+  nextDelay?: number
+}
+
 /** Generic event containing data emitted by smart contracts. */
 export interface IChainEventArgs extends IClientEventArgs {
   /** Identifier (currently only used by EVM events). */
@@ -95,10 +306,39 @@ export interface IChainEventArgs extends IClientEventArgs {
   topics: Array<string>
 }
 
-const INVALID_TX_NONCE_ERROR = 'Invalid tx nonce'
+/** Result of a tx that was committed to the DAppChain. */
+export interface ITxCommitResult {
+  /** Result (if any) returned by the tx handler in the contract that processed the tx. */
+  output: Uint8Array | void
+  /** Hex encoded hash of the tx. */
+  hash: string
+  /** Height of the block the tx was committed in. */
+  height: number
+  /**
+   * Events emitted by smart contracts while the tx was being processed, empty if the events
+   * couldn't be fetched (see `eventsError`).
+   */
+  events: IChainEventArgs[]
+  /**
+   * Error encountered while fetching the events emitted by the tx, the tx itself was committed
+   * successfully so it shouldn't be resent.
+   */
+  eventsError?: any
+}
+
+/**
+ * Determines how a tx is submitted to the DAppChain when it's not committed via
+ * `Client.commitTxAsync()`.
+ */
+export enum BroadcastTxMode {
+  /** Waits for the tx to pass CheckTx before returning. */
+  Sync = 'broadcast_tx_sync',
+  /** Returns as soon as the tx has been received by the node. */
+  Async = 'broadcast_tx_async'
+}
 
 export function isInvalidTxNonceError(err: any): boolean {
-  return err instanceof Error && err.message === INVALID_TX_NONCE_ERROR
+  return err instanceof InvalidNonceError
 }
 
 /**
@@ -123,6 +363,16 @@ export class Client extends EventEmitter {
   /** Middleware to apply to transactions before they are transmitted to the DAppChain. */
   txMiddleware: ITxMiddlewareHandler[] = []
 
+  /** Middleware to apply to read requests before they are transmitted to the DAppChain. */
+  queryMiddleware: IQueryMiddlewareHandler[] = []
+
+  /**
+   * If set NonceTxMiddleware will obtain nonces from this nonce manager instead of fetching them
+   * from the DAppChain for every tx, which makes it possible to send multiple txs signed with the
+   * same key concurrently.
+   */
+  nonceManager?: NonceManager
+
   /**
    * The retry strategy that should be used to resend a tx when it's rejected because of a bad nonce.
    * Default is a binary exponential retry strategy with 5 retries.
@@ -144,6 +394,11 @@ export class Client extends EventEmitter {
     return this._writeClient.url
   }
 
+  /** State of the connection used to query the DAppChain & listen to events. */
+  get connectionState(): ConnectionState {
+    return getConnectionState(this._readClient)
+  }
+
   /**
    * Constructs a new client to read & write data from/to a Loom DAppChain via web sockets.
    * @param chainId DAppChain identifier.
@@ -179,6 +434,7 @@ export class Client extends EventEmitter {
     this._writeClient.on(RPCClientEvent.Disconnected, (url: string) =>
       this._emitNetEvent(url, ClientEvent.Disconnected)
     )
+    this._writeClient.on(RPCClientEvent.ConnectionStateChanged, this._emitConnectionStateChanged)
 
     if (!readClient || writeClient === readClient) {
       this._readClient = this._writeClient
@@ -193,8 +449,26 @@ export class Client extends EventEmitter {
       this._readClient.on(RPCClientEvent.Disconnected, (url: string) =>
         this._emitNetEvent(url, ClientEvent.Disconnected)
       )
+      this._readClient.on(RPCClientEvent.ConnectionStateChanged, this._emitConnectionStateChanged)
     }
 
+    this._readClient.on(
+      RPCClientEvent.EvmSubscriptionLost,
+      (url: string, id: string, error: Error) => {
+        const eventArgs: IEvmSubscriptionLostEventArgs = {
+          kind: ClientEvent.EvmSubscriptionLost,
+          url,
+          id,
+          error
+        }
+        this.emit(ClientEvent.EvmSubscriptionLost, eventArgs)
+      }
+    )
+    this._readClient.on(RPCClientEvent.EventPollError, (url: string, error: any) => {
+      const eventArgs: IEventPollErrorEventArgs = { kind: ClientEvent.EventPollError, url, error }
+      this.emit(ClientEvent.EventPollError, eventArgs)
+    })
+
     const emitContractEvent = (url: string, event: IJSONRPCEvent) =>
       this._emitContractEvent(url, event)
 
@@ -218,11 +492,51 @@ export class Client extends EventEmitter {
   disconnect() {
     this.removeAllListeners()
     this._writeClient.disconnect()
-    if (this._readClient && this._readClient != this._writeClient) {
+    if (this._readClient && this._readClient !== this._writeClient) {
       this._readClient.disconnect()
     }
   }
 
+  /**
+   * Closes the current connections to the DAppChain (if any), and establishes new ones.
+   * Can be used to try again after the connection state changes to `ConnectionState.Failed`.
+   */
+  reconnect() {
+    if (this._writeClient.reconnect) {
+      this._writeClient.reconnect()
+    }
+    if (this._readClient !== this._writeClient && this._readClient.reconnect) {
+      this._readClient.reconnect()
+    }
+  }
+
+  /**
+   * Narrows the `ClientEvent.Contract` events received from the DAppChain down to the given topics,
+   * by default the client receives all the events emitted on the DAppChain.
+   *
+   * Topics are reference counted, so each call must be matched by a call to removeEventTopics()
+   * with the same topics once the caller is no longer interested in them. The topics apply to all
+   * `ClientEvent.Contract` listeners, so callers that need all events should add an empty array of
+   * topics, the client will then receive all events for as long as that empty array is added.
+   *
+   * @param topics Event topics to subscribe to, or an empty array to subscribe to all events.
+   */
+  addEventTopics(topics: string[]) {
+    if (this._readClient.addTopics) {
+      this._readClient.addTopics(topics)
+    }
+  }
+
+  /**
+   * Releases topics previously added via addEventTopics().
+   * @param topics Event topics to unsubscribe from.
+   */
+  removeEventTopics(topics: string[]) {
+    if (this._readClient.removeTopics) {
+      this._readClient.removeTopics(topics)
+    }
+  }
+
   /**
    * Commits a transaction to the DAppChain.
    *
@@ -233,25 +547,199 @@ export class Client extends EventEmitter {
    * @param opts.middleware Middleware to apply before sending the tx to the DAppChain, setting this
    *                        option will override the default set of middleware specified in
    *                        the `Client.txMiddleware` property.
+   * @param opts.timeout Number of milliseconds to wait for the DAppChain to respond, overrides the
+   *                     `requestTimeout` of the underlying RPC client.
+   * @param opts.cancellationToken Token that can be used to abandon the tx. Cancelling the token
+   *                               after the tx has been sent won't stop it from being committed.
    * @returns Result (if any) returned by the tx handler in the contract that processed the tx.
    */
   commitTxAsync<T extends Message>(
     tx: T,
-    opts: { middleware?: ITxMiddlewareHandler[] } = {}
+    opts: { middleware?: ITxMiddlewareHandler[] } & IRequestOptions = {}
+  ): Promise<Uint8Array | void> {
+    const { middleware = this.txMiddleware, ...requestOpts } = opts
+    return this._retryOnInvalidNonceAsync(
+      () => this._commitTxAsync<T>(tx, middleware, requestOpts),
+      requestOpts.cancellationToken
+    )
+  }
+
+  /**
+   * Commits a transaction to the DAppChain, same as commitTxAsync(), but also looks up where the
+   * tx ended up and the events it emitted.
+   *
+   * Consider using Contract.callWithResultAsync() instead.
+   *
+   * @param tx Transaction to commit.
+   * @param opts Options object.
+   * @param opts.middleware Middleware to apply before sending the tx to the DAppChain, setting this
+   *                        option will override the default set of middleware specified in
+   *                        the `Client.txMiddleware` property.
+   * @param opts.timeout Number of milliseconds to wait for the DAppChain to respond, overrides the
+   *                     `requestTimeout` of the underlying RPC client.
+   * @param opts.cancellationToken Token that can be used to abandon the tx. Cancelling the token
+   *                               after the tx has been sent won't stop it from being committed.
+   * @returns Result returned by the tx handler, along with the tx hash, the height of the block
+   *          the tx was committed in, and the events emitted by the tx. The promise won't be
+   *          rejected if the events can't be fetched once the tx has been committed, since that
+   *          could lead the caller to resend the tx, `eventsError` will be set instead.
+   */
+  async commitTxWithResultAsync<T extends Message>(
+    tx: T,
+    opts: { middleware?: ITxMiddlewareHandler[] } & IRequestOptions = {}
+  ): Promise<ITxCommitResult> {
+    const { middleware = this.txMiddleware, ...requestOpts } = opts
+    const result = await this._retryOnInvalidNonceAsync(async () => {
+      const txBytes = await this._signTxAsync(tx, middleware)
+      return this._broadcastSignedTxAsync(txBytes, requestOpts)
+    }, requestOpts.cancellationToken)
+    try {
+      const events = await this._getTxEventsAsync(result.hash, result.height, requestOpts)
+      return { ...result, events }
+    } catch (err) {
+      log(`Failed to fetch events emitted by tx ${result.hash}: ${err}`)
+      return { ...result, events: [], eventsError: err }
+    }
+  }
+
+  /**
+   * Submits a transaction to the DAppChain without waiting for it to be committed to a block.
+   *
+   * Use waitForTxAsync() to find out if & when the tx has been committed.
+   *
+   * @param tx Transaction to submit.
+   * @param opts Options object.
+   * @param opts.middleware Middleware to apply before sending the tx to the DAppChain, setting this
+   *                        option will override the default set of middleware specified in
+   *                        the `Client.txMiddleware` property.
+   * @param opts.timeout Number of milliseconds to wait for the DAppChain to respond, overrides the
+   *                     `requestTimeout` of the underlying RPC client.
+   * @param opts.cancellationToken Token that can be used to abandon the tx. Cancelling the token
+   *                               after the tx has been sent won't stop it from being committed.
+   * @param opts.mode Determines whether the node should run CheckTx on the tx before responding,
+   *                  defaults to `BroadcastTxMode.Sync`. Txs rejected because of a bad nonce will
+   *                  only be resent in `BroadcastTxMode.Sync` mode.
+   * @returns Hex encoded hash of the submitted tx.
+   */
+  sendTxAsync<T extends Message>(
+    tx: T,
+    opts: { middleware?: ITxMiddlewareHandler[]; mode?: BroadcastTxMode } & IRequestOptions = {}
+  ): Promise<string> {
+    const { middleware = this.txMiddleware, mode = BroadcastTxMode.Sync, ...requestOpts } = opts
+    return this._retryOnInvalidNonceAsync(
+      () => this._sendTxAsync<T>(tx, middleware, mode, requestOpts),
+      requestOpts.cancellationToken
+    )
+  }
+
+  /**
+   * Waits for a tx submitted via sendTxAsync() to be committed to a block.
+   *
+   * @param txHash Hex encoded hash of the tx.
+   * @param opts Options object.
+   * @param opts.timeout Maximum number of milliseconds to wait for the tx to be committed,
+   *                     defaults to 60 seconds.
+   * @param opts.confirmations Number of blocks (including the one the tx was committed in) that
+   *                           must exist before the tx is considered to be confirmed, defaults to 1.
+   * @param opts.pollInterval Number of milliseconds to wait between checks, defaults to 1 second.
+   * @param opts.cancellationToken Token that can be used to stop waiting for the tx.
+   * @returns Result (if any) returned by the tx handler in the contract that processed the tx.
+   */
+  async waitForTxAsync(
+    txHash: string,
+    opts: {
+      timeout?: number
+      confirmations?: number
+      pollInterval?: number
+      cancellationToken?: CancellationToken
+    } = {}
+  ): Promise<Uint8Array | void> {
+    const {
+      timeout = 60000, // 60s
+      confirmations = 1,
+      pollInterval = 1000, // 1s
+      cancellationToken
+    } = opts
+    // every tx that's waited on must end up with exactly one committed or failed event
+    let result: ITxResult
+    try {
+      result = await this._waitForTxResultAsync(
+        txHash,
+        timeout,
+        confirmations,
+        pollInterval,
+        cancellationToken
+      )
+      throwOnDeliverTxError(result.tx_result, txHash, parseInt(result.height, 10))
+    } catch (err) {
+      this._emitTxFailed(err, txHash)
+      throw err
+    }
+    this._emitTxCommitted(txHash, parseInt(result.height, 10))
+    if (result.tx_result.data) {
+      return B64ToUint8Array(result.tx_result.data)
+    }
+  }
+
+  /**
+   * Commits a tx that has already been signed to the DAppChain.
+   *
+   * Txs rejected because of a bad nonce won't be resent since that requires the tx to be signed
+   * again.
+   *
+   * @param txBytes Signed tx, e.g. as returned by `signTxAsync()`.
+   * @param opts Options object, see IRequestOptions.
+   * @returns Result (if any) returned by the tx handler in the contract that processed the tx.
+   */
+  async broadcastSignedTxAsync(
+    txBytes: Uint8Array,
+    opts: IRequestOptions = {}
   ): Promise<Uint8Array | void> {
-    const { middleware = this.txMiddleware } = opts
+    try {
+      const { output } = await this._broadcastSignedTxAsync(txBytes, opts)
+      return output
+    } catch (err) {
+      this._emitTxFailed(err)
+      throw err
+    }
+  }
+
+  private _retryOnInvalidNonceAsync<R>(
+    send: () => Promise<R>,
+    cancellationToken?: CancellationToken
+  ): Promise<R> {
     const op = retry.operation(this.nonceRetryStrategy)
-    return new Promise<Uint8Array | void>((resolve, reject) => {
+    let lastError: InvalidNonceError
+    return new Promise<R>((resolve, reject) => {
       op.attempt(currentAttempt => {
-        this._commitTxAsync<T>(tx, middleware)
+        if (cancellationToken && cancellationToken.isCancelled) {
+          op.stop()
+          const err = new CancelledError()
+          this._emitTxFailed(err)
+          reject(err)
+          return
+        }
+        if (currentAttempt > 1) {
+          const eventArgs: INonceRetryEventArgs = {
+            kind: ClientEvent.NonceRetry,
+            url: this.writeUrl,
+            attempt: currentAttempt,
+            error: lastError
+          }
+          this.emit(ClientEvent.NonceRetry, eventArgs)
+        }
+        send()
           .then(resolve)
           .catch(err => {
-            if (err instanceof Error && err.message === INVALID_TX_NONCE_ERROR) {
+            if (err instanceof InvalidNonceError) {
+              lastError = err
               if (!op.retry(err)) {
+                this._emitTxFailed(err)
                 reject(err)
               }
             } else {
               op.stop()
+              this._emitTxFailed(err)
               reject(err)
             }
           })
@@ -259,40 +747,250 @@ export class Client extends EventEmitter {
     })
   }
 
-  private async _commitTxAsync<T extends Message>(
+  /**
+   * Applies the given middleware to a tx.
+   * @returns Signed tx.
+   */
+  private async _signTxAsync<T extends Message>(
     tx: T,
     middleware: ITxMiddlewareHandler[]
-  ): Promise<Uint8Array | void> {
-    let txBytes = tx.serializeBinary()
-    for (let i = 0; i < middleware.length; i++) {
-      txBytes = await middleware[i].Handle(txBytes)
+  ): Promise<Uint8Array> {
+    const txBytes = await signTxAsync(tx, middleware)
+    const eventArgs: ITxBuiltEventArgs = { kind: ClientEvent.TxBuilt, url: this.writeUrl, txBytes }
+    this.emit(ClientEvent.TxBuilt, eventArgs)
+    return txBytes
+  }
+
+  private _emitTxSent(txBytes: Uint8Array, method: string) {
+    const eventArgs: ITxSentEventArgs = {
+      kind: ClientEvent.TxSent,
+      url: this.writeUrl,
+      txBytes,
+      method
     }
-    const result = await this._writeClient.sendAsync<IBroadcastTxCommitResult>(
+    this.emit(ClientEvent.TxSent, eventArgs)
+  }
+
+  private _emitTxCommitted(hash: string, height: number) {
+    const eventArgs: ITxCommittedEventArgs = {
+      kind: ClientEvent.TxCommitted,
+      url: this.writeUrl,
+      hash,
+      height
+    }
+    this.emit(ClientEvent.TxCommitted, eventArgs)
+  }
+
+  private _emitTxFailed(error: Error, hash?: string) {
+    let reason = TxFailureReason.Other
+    let height: number | undefined
+    if (error instanceof TxCheckError) {
+      reason =
+        error instanceof InvalidNonceError ? TxFailureReason.InvalidNonce : TxFailureReason.CheckTx
+      hash = error.hash || hash
+      height = error.height
+    } else if (error instanceof TxDeliverError) {
+      reason = TxFailureReason.DeliverTx
+      hash = error.hash || hash
+      height = error.height
+    } else if (error instanceof TimeoutError) {
+      reason = TxFailureReason.Timeout
+    } else if (error instanceof CancelledError) {
+      reason = TxFailureReason.Cancelled
+    }
+    const eventArgs: ITxFailedEventArgs = {
+      kind: ClientEvent.TxFailed,
+      url: this.writeUrl,
+      reason,
+      error,
+      hash,
+      height
+    }
+    this.emit(ClientEvent.TxFailed, eventArgs)
+  }
+
+  private async _broadcastSignedTxAsync(
+    txBytes: Uint8Array,
+    opts?: IRequestOptions
+  ): Promise<{ output: Uint8Array | void; hash: string; height: number }> {
+    this._emitTxSent(txBytes, 'broadcast_tx_commit')
+    const result = await this._sendSignedTxAsync<IBroadcastTxCommitResult>(
       'broadcast_tx_commit',
-      [Uint8ArrayToB64(txBytes)]
+      txBytes,
+      opts
     )
-    if (result) {
-      if ((result.check_tx.code || 0) != 0) {
-        if (!result.check_tx.log) {
-          throw new Error(`Failed to commit Tx: ${result.check_tx.code}`)
-        }
-        if (
-          result.check_tx.code === 1 &&
-          result.check_tx.log === 'sequence number does not match'
-        ) {
-          throw new Error(INVALID_TX_NONCE_ERROR)
-        }
-        throw new Error(`Failed to commit Tx: ${result.check_tx.log}`)
+    const height = parseInt(result.height, 10)
+    this._checkTxResult(txBytes, result.check_tx, result.hash, height)
+    throwOnDeliverTxError(result.deliver_tx, result.hash, height)
+    this._emitTxCommitted(result.hash, height)
+    return {
+      output: result.deliver_tx.data ? B64ToUint8Array(result.deliver_tx.data) : undefined,
+      hash: result.hash,
+      height
+    }
+  }
+
+  private async _commitTxAsync<T extends Message>(
+    tx: T,
+    middleware: ITxMiddlewareHandler[],
+    opts: IRequestOptions
+  ): Promise<Uint8Array | void> {
+    const txBytes = await this._signTxAsync(tx, middleware)
+    const { output } = await this._broadcastSignedTxAsync(txBytes, opts)
+    return output
+  }
+
+  private async _sendTxAsync<T extends Message>(
+    tx: T,
+    middleware: ITxMiddlewareHandler[],
+    mode: BroadcastTxMode,
+    opts: IRequestOptions
+  ): Promise<string> {
+    const txBytes = await this._signTxAsync(tx, middleware)
+    this._emitTxSent(txBytes, mode)
+    const result = await this._sendSignedTxAsync<IBroadcastTxResult>(mode, txBytes, opts)
+    if (mode === BroadcastTxMode.Sync) {
+      this._checkTxResult(txBytes, result, result.hash)
+    }
+    return result.hash
+  }
+
+  /**
+   * Sends a signed tx to the DAppChain, resyncs the nonce of the tx signer if the request fails,
+   * since the tx may not have reached the DAppChain.
+   */
+  private async _sendSignedTxAsync<T>(
+    method: string,
+    txBytes: Uint8Array,
+    opts?: IRequestOptions
+  ): Promise<T> {
+    try {
+      return await this._writeClient.sendAsync<T>(method, [Uint8ArrayToB64(txBytes)], opts)
+    } catch (err) {
+      if (this.nonceManager) {
+        this._resyncNonce(txBytes)
+      }
+      throw err
+    }
+  }
+
+  private _checkTxResult(
+    txBytes: Uint8Array,
+    result: ITxHandlerResult,
+    hash?: string,
+    height?: number
+  ) {
+    try {
+      throwOnCheckTxError(result, hash, height)
+    } catch (err) {
+      // A tx rejected by CheckTx doesn't use up its nonce, whatever the reason for the rejection.
+      if (this.nonceManager) {
+        this._resyncNonce(txBytes)
       }
-      if ((result.deliver_tx.code || 0) != 0) {
-        if (!result.deliver_tx.log) {
-          throw new Error(`Failed to commit Tx: ${result.deliver_tx.code}`)
+      throw err
+    }
+  }
+
+  /**
+   * Discards the nonce the nonce manager is tracking for the signer of the given tx, otherwise the
+   * nonce reserved for a tx that wasn't accepted by the DAppChain would leave a gap, and all the
+   * txs signed with the same key after it would be rejected.
+   */
+  private _resyncNonce(txBytes: Uint8Array) {
+    let key: string | undefined
+    try {
+      const signedTx = SignedTx.deserializeBinary(bufferToProtobufBytes(txBytes))
+      const pubKey = signedTx.getPublicKey_asU8()
+      if (pubKey.length > 0) {
+        key = bytesToHex(pubKey)
+      }
+    } catch (err) {
+      log(`Failed to extract public key from tx: ${err}`)
+    }
+    // If the signer can't be identified drop all the nonces to be on the safe side.
+    this.nonceManager!.resync(key)
+  }
+
+  /**
+   * Sends a read request to the DAppChain via the query middleware.
+   * @param method RPC method name.
+   * @param params RPC parameters.
+   */
+  private _readAsync<T>(method: string, params: object | any[], opts?: IQueryOptions): Promise<T> {
+    const middleware = this.queryMiddleware
+    const handle = (index: number, request: IQueryRequest): Promise<any> => {
+      if (index < middleware.length) {
+        return middleware[index].Handle(request, nextRequest => handle(index + 1, nextRequest))
+      }
+      return this._readClient.sendAsync<T>(request.method, request.params, request.opts)
+    }
+    return handle(0, { method, params, opts })
+  }
+
+  /**
+   * Fetches the events emitted by the given tx.
+   * @param txHash Hex encoded hash of the tx.
+   * @param height Height of the block the tx was committed in.
+   */
+  private async _getTxEventsAsync(
+    txHash: string,
+    height: number,
+    opts?: IRequestOptions
+  ): Promise<IChainEventArgs[]> {
+    const hash = txHash.toUpperCase()
+    const events = await this.getEventsAsync({ fromHeight: height, toHeight: height }, opts)
+    return events.filter(event => bytesToHex(event.transactionHashBytes) === hash)
+  }
+
+  /**
+   * Polls for the result of a tx until it's been committed & confirmed.
+   * @returns The result of the tx.
+   * @throws TimeoutError if the tx isn't confirmed before the timeout.
+   */
+  private async _waitForTxResultAsync(
+    txHash: string,
+    timeout: number,
+    confirmations: number,
+    pollInterval: number,
+    cancellationToken?: CancellationToken
+  ): Promise<ITxResult> {
+    const deadline = Date.now() + timeout
+    while (true) {
+      const result = await this._getTxResultAsync(txHash, { cancellationToken })
+      if (result) {
+        const txHeight = parseInt(result.height, 10)
+        const height =
+          confirmations > 1 ? await this.getBlockHeightAsync({ cancellationToken }) : txHeight
+        if (height - txHeight + 1 >= confirmations) {
+          return result
         }
-        throw new Error(`Failed to commit Tx: ${result.deliver_tx.log}`)
       }
+      if (Date.now() + pollInterval > deadline) {
+        throw new TimeoutError(`Timeout while waiting for tx ${txHash} to be committed`)
+      }
+      await delayAsync(pollInterval, cancellationToken)
     }
-    if (result.deliver_tx.data) {
-      return B64ToUint8Array(result.deliver_tx.data)
+  }
+
+  /**
+   * Fetches the result of a committed tx.
+   * @returns The result, or null if the tx hasn't been committed yet.
+   */
+  private async _getTxResultAsync(
+    txHash: string,
+    opts?: IRequestOptions
+  ): Promise<ITxResult | null> {
+    try {
+      return await this._writeClient.sendAsync<ITxResult>(
+        'tx',
+        { hash: Uint8ArrayToB64(Buffer.from(txHash, 'hex')) },
+        opts
+      )
+    } catch (err) {
+      if (isTxNotFoundError(err)) {
+        return null
+      }
+      throw err
     }
   }
 
@@ -300,19 +998,26 @@ export class Client extends EventEmitter {
    * Queries the current state of a contract.
    *
    * Consider using Contract.staticCallAsync() instead.
+   *
+   * @param opts Options object, see IQueryOptions.
    */
   async queryAsync(
     contract: Address,
     query?: Uint8Array,
     vmType: VMType = VMType.PLUGIN,
-    caller?: Address
+    caller?: Address,
+    opts?: IQueryOptions
   ): Promise<Uint8Array | void> {
-    const result = await this._readClient.sendAsync<string>('query', {
-      contract: contract.local.toString(),
-      query: query ? Uint8ArrayToB64(query) : undefined,
-      vmType: vmType,
-      caller: caller ? caller.toString() : undefined
-    })
+    const result = await this._readAsync<string>(
+      'query',
+      {
+        contract: contract.local.toString(),
+        query: query ? Uint8ArrayToB64(query) : undefined,
+        vmType: vmType,
+        caller: caller ? caller.toString() : undefined
+      },
+      opts
+    )
     if (result) {
       return B64ToUint8Array(result)
     }
@@ -322,12 +1027,20 @@ export class Client extends EventEmitter {
    * Queries the receipt corresponding to a transaction hash
    *
    * @param txHash Transaction hash returned by call transaction.
+   * @param opts Options object, see IQueryOptions.
    * @return EvmTxReceipt The corresponding transaction receipt.
    */
-  async getEvmTxReceiptAsync(txHash: Uint8Array): Promise<EvmTxReceipt | null> {
-    const result = await this._readClient.sendAsync<string>('evmtxreceipt', {
-      txHash: Uint8ArrayToB64(txHash)
-    })
+  async getEvmTxReceiptAsync(
+    txHash: Uint8Array,
+    opts?: IQueryOptions
+  ): Promise<EvmTxReceipt | null> {
+    const result = await this._readAsync<string>(
+      'evmtxreceipt',
+      {
+        txHash: Uint8ArrayToB64(txHash)
+      },
+      opts
+    )
     if (result) {
       return EvmTxReceipt.deserializeBinary(bufferToProtobufBytes(B64ToUint8Array(result)))
     } else {
@@ -339,12 +1052,20 @@ export class Client extends EventEmitter {
    * Returns the information about a transaction requested by transaction hash
    *
    * @param txHash Transaction hash returned by call transaction.
+   * @param opts Options object, see IQueryOptions.
    * @return EvmTxObject The corresponding transaction object data.
    */
-  async getEvmTxByHashAsync(txHash: Uint8Array): Promise<EvmTxObject | null> {
-    const result = await this._readClient.sendAsync<string>('getevmtransactionbyhash', {
-      txHash: Uint8ArrayToB64(txHash)
-    })
+  async getEvmTxByHashAsync(
+    txHash: Uint8Array,
+    opts?: IQueryOptions
+  ): Promise<EvmTxObject | null> {
+    const result = await this._readAsync<string>(
+      'getevmtransactionbyhash',
+      {
+        txHash: Uint8ArrayToB64(txHash)
+      },
+      opts
+    )
     if (result) {
       return EvmTxObject.deserializeBinary(bufferToProtobufBytes(B64ToUint8Array(result)))
     } else {
@@ -356,12 +1077,18 @@ export class Client extends EventEmitter {
    * Queries the code corresponding to a contract
    *
    * @param contractAddress Contract address returned by deploy.
+   * @param opts Options object, see IQueryOptions.
    * @return Uint8Array The corresponding contract code
    */
-  async getEvmCodeAsync(contractAddress: Address): Promise<Uint8Array | null> {
-    const result = await this._readClient.sendAsync<string>('getevmcode', {
-      contract: contractAddress.toString()
-    })
+  async getEvmCodeAsync(
+    contractAddress: Address,
+    opts?: IQueryOptions
+  ): Promise<Uint8Array | null> {
+    const result = await this._readAsync<string>(
+      'getevmcode',
+      { contract: contractAddress.toString() },
+      opts
+    )
     if (result) {
       return B64ToUint8Array(result)
     } else {
@@ -373,14 +1100,19 @@ export class Client extends EventEmitter {
    * Queries logs with filter terms
    *
    * @param filter Filter terms
+   * @param opts Options object, see IQueryOptions.
    * @return Uint8Array The corresponding result of the filter
    */
-  async getEvmLogsAsync(filterObject: Object): Promise<Uint8Array | null> {
+  async getEvmLogsAsync(filterObject: Object, opts?: IQueryOptions): Promise<Uint8Array | null> {
     const filter = JSON.stringify(filterObject)
     log(`Send filter ${filter} to getlogs`)
-    const result = await this._readClient.sendAsync<string>('getevmlogs', {
-      filter
-    })
+    const result = await this._readAsync<string>(
+      'getevmlogs',
+      {
+        filter
+      },
+      opts
+    )
     if (result) {
       return B64ToUint8Array(result)
     } else {
@@ -396,14 +1128,19 @@ export class Client extends EventEmitter {
    * Also for understand how filters works check https://github.com/ethereum/wiki/wiki/JSON-RPC#eth_newfilter
    *
    * @param filter Filter terms
+   * @param opts Options object, see IQueryOptions.
    * @return Uint8Array The corresponding result of the filter
    */
-  async newEvmFilterAsync(filterObject: Object): Promise<string | null> {
+  async newEvmFilterAsync(filterObject: Object, opts?: IQueryOptions): Promise<string | null> {
     const filter = JSON.stringify(filterObject)
     log(`Send filter ${filter} to newfilter`)
-    const result = await this._readClient.sendAsync<string>('newevmfilter', {
-      filter
-    })
+    const result = await this._readAsync<string>(
+      'newevmfilter',
+      {
+        filter
+      },
+      opts
+    )
     if (result) {
       return result
     } else {
@@ -417,13 +1154,18 @@ export class Client extends EventEmitter {
    * The ID used was requested from getEVMNewFilterChanges or getEVMNewBlockFilter
    *
    * @param id Id of filter previously created
+   * @param opts Options object, see IQueryOptions.
    * @return Uint8Array The corresponding result of the request for given id
    */
-  async getEvmFilterChangesAsync(id: string): Promise<Uint8Array | null> {
+  async getEvmFilterChangesAsync(id: string, opts?: IQueryOptions): Promise<Uint8Array | null> {
     log(`Get filter changes for ${JSON.stringify({ id }, null, 2)}`)
-    const result = await this._readClient.sendAsync<string>('getevmfilterchanges', {
-      id
-    })
+    const result = await this._readAsync<string>(
+      'getevmfilterchanges',
+      {
+        id
+      },
+      opts
+    )
 
     if (result) {
       return B64ToUint8Array(result)
@@ -437,10 +1179,11 @@ export class Client extends EventEmitter {
    *
    * In order to check if the state has changed, call getEVMFilterChangesAsync
    *
+   * @param opts Options object, see IQueryOptions.
    * @return String Filter ID in hex format to be used later with getEVMFilterChangesAsync
    */
-  async newBlockEvmFilterAsync(): Promise<string | null> {
-    const result = await this._readClient.sendAsync<string>('newblockevmfilter', {})
+  async newBlockEvmFilterAsync(opts?: IQueryOptions): Promise<string | null> {
+    const result = await this._readAsync<string>('newblockevmfilter', {}, opts)
     if (result) {
       return result.toString()
     } else {
@@ -453,10 +1196,11 @@ export class Client extends EventEmitter {
    *
    * In order to check if the state has changed, call getEVMFilterChangesAsync
    *
+   * @param opts Options object, see IQueryOptions.
    * @return String Filter ID in hex format to be used later with getEVMFilterChangesAsync
    */
-  async newPendingTransactionEvmFilterAsync(): Promise<string | null> {
-    const result = await this._readClient.sendAsync<string>('newpendingtransactionevmfilter', {})
+  async newPendingTransactionEvmFilterAsync(opts?: IQueryOptions): Promise<string | null> {
+    const result = await this._readAsync<string>('newpendingtransactionevmfilter', {}, opts)
     if (result) {
       return result.toString()
     } else {
@@ -470,12 +1214,17 @@ export class Client extends EventEmitter {
    * The ID used was requested from getEVMNewFilterChanges or getEVMNewBlockFilter
    *
    * @param id Id of filter previously created
+   * @param opts Options object, see IQueryOptions.
    * @return boolean If true the filter is removed with success
    */
-  uninstallEvmFilterAsync(id: string): Promise<boolean | null> {
-    return this._readClient.sendAsync<boolean>('uninstallevmfilter', {
-      id
-    })
+  uninstallEvmFilterAsync(id: string, opts?: IQueryOptions): Promise<boolean | null> {
+    return this._readAsync<boolean>(
+      'uninstallevmfilter',
+      {
+        id
+      },
+      opts
+    )
   }
 
   /**
@@ -483,12 +1232,21 @@ export class Client extends EventEmitter {
    *
    * @param num Integer of a block number
    * @param full If true it returns the full transaction objects, if false only the hashes of the transactions
+   * @param opts Options object, see IQueryOptions.
    */
-  async getEvmBlockByNumberAsync(num: string, full: boolean = true): Promise<EthBlockInfo | null> {
-    const result = await this._readClient.sendAsync<string>('getevmblockbynumber', {
-      number: num,
-      full
-    })
+  async getEvmBlockByNumberAsync(
+    num: string,
+    full: boolean = true,
+    opts?: IQueryOptions
+  ): Promise<EthBlockInfo | null> {
+    const result = await this._readAsync<string>(
+      'getevmblockbynumber',
+      {
+        number: num,
+        full
+      },
+      opts
+    )
     if (result) {
       return EthBlockInfo.deserializeBinary(bufferToProtobufBytes(B64ToUint8Array(result)))
     } else {
@@ -501,12 +1259,21 @@ export class Client extends EventEmitter {
    *
    * @param hash String with the hash of the transaction
    * @param full If true it returns the full transaction objects, if false only the hashes of the transactions
+   * @param opts Options object, see IQueryOptions.
    */
-  async getEvmBlockByHashAsync(hash: string, full: boolean = true): Promise<EthBlockInfo | null> {
-    const result = await this._readClient.sendAsync<string>('getevmblockbyhash', {
-      hash,
-      full
-    })
+  async getEvmBlockByHashAsync(
+    hash: string,
+    full: boolean = true,
+    opts?: IQueryOptions
+  ): Promise<EthBlockInfo | null> {
+    const result = await this._readAsync<string>(
+      'getevmblockbyhash',
+      {
+        hash,
+        full
+      },
+      opts
+    )
     if (result) {
       return EthBlockInfo.deserializeBinary(bufferToProtobufBytes(B64ToUint8Array(result)))
     } else {
@@ -531,13 +1298,18 @@ export class Client extends EventEmitter {
    *
    * @param method Method selected to the filter, can be "newHeads" or "logs"
    * @param filter JSON string of the filter
+   * @param opts Options object, see IQueryOptions.
    */
-  evmSubscribeAsync(method: string, filterObject: Object): Promise<string> {
+  evmSubscribeAsync(method: string, filterObject: Object, opts?: IQueryOptions): Promise<string> {
     const filter = JSON.stringify(filterObject)
-    return this._readClient.sendAsync<string>('evmsubscribe', {
-      method,
-      filter
-    })
+    return this._readAsync<string>(
+      'evmsubscribe',
+      {
+        method,
+        filter
+      },
+      opts
+    )
   }
 
   /**
@@ -545,21 +1317,77 @@ export class Client extends EventEmitter {
    * It returns a bool indicating if the subscription was cancelled successful.
    *
    * @param id Id of subscription previously created
+   * @param opts Options object, see IQueryOptions.
    * @return boolean If true the subscription is removed with success
    */
-  evmUnsubscribeAsync(id: string): Promise<boolean> {
-    return this._readClient.sendAsync<boolean>('evmunsubscribe', {
-      id
-    })
+  evmUnsubscribeAsync(id: string, opts?: IQueryOptions): Promise<boolean> {
+    return this._readAsync<boolean>(
+      'evmunsubscribe',
+      {
+        id
+      },
+      opts
+    )
+  }
+
+  /**
+   * Fetches the events emitted by smart contracts within a range of blocks.
+   *
+   * Can be used to catch up on any events that were missed while the client wasn't listening for
+   * `ClientEvent.Contract` events.
+   *
+   * @param filter Filter object.
+   * @param filter.fromHeight Height of the first block to fetch events from.
+   * @param filter.toHeight Height of the last block to fetch events from.
+   * @param filter.contract If set only events emitted by this contract will be returned.
+   * @param filter.topics If set only events matching at least one of these topics will be returned.
+   * @param opts Options object, see IQueryOptions.
+   * @returns Events in the same form as the ones emitted via `ClientEvent.Contract`, in the order
+   *          they were emitted.
+   */
+  async getEventsAsync(
+    filter: {
+      fromHeight: number
+      toHeight: number
+      contract?: Address
+      topics?: string[]
+    },
+    opts?: IQueryOptions
+  ): Promise<IChainEventArgs[]> {
+    const { fromHeight, toHeight, contract, topics } = filter
+    const result = await this._readAsync<string>(
+      'getevents',
+      {
+        fromBlock: fromHeight,
+        toBlock: toHeight,
+        contract: contract ? contract.local.toString() : undefined
+      },
+      opts
+    )
+    if (!result) {
+      return []
+    }
+    const eventList = EventDataList.deserializeBinary(
+      bufferToProtobufBytes(B64ToUint8Array(result))
+    )
+    return eventList
+      .getEventsList()
+      .map(eventData => eventDataToChainEventArgs(this._readClient.url, eventData))
+      .filter(
+        event =>
+          (!contract || event.contractAddress.equals(contract)) &&
+          (!topics || event.topics.some(topic => topics.indexOf(topic) !== -1))
+      )
   }
 
   /**
    * Gets the number of the latest block
    *
+   * @param opts Options object, see IQueryOptions.
    * @return The block height
    */
-  getBlockHeightAsync(): Promise<number> {
-    return this._readClient.sendAsync<number>('getblockheight', {})
+  getBlockHeightAsync(opts?: IQueryOptions): Promise<number> {
+    return this._readAsync<number>('getblockheight', {}, opts)
   }
 
   /**
@@ -568,20 +1396,25 @@ export class Client extends EventEmitter {
    * This should only be called by NonceTxMiddleware.
    *
    * @param key A hex encoded public key.
+   * @param opts Options object, see IQueryOptions.
    * @return The nonce.
    */
-  getNonceAsync(key: string): Promise<number> {
-    return this._readClient.sendAsync<number>('nonce', { key })
+  getNonceAsync(key: string, opts?: IQueryOptions): Promise<number> {
+    return this._readAsync<number>('nonce', { key }, opts)
   }
 
   /**
    * Tries to resolve a contract name to an address.
    *
    * @param contractName Name of a smart contract on a Loom DAppChain.
+   * @param opts Options object, see IQueryOptions.
    * @returns Contract address, or null if a contract matching the given name wasn't found.
    */
-  async getContractAddressAsync(contractName: string): Promise<Address | null> {
-    const addrStr = await this._readClient.sendAsync<string>('resolve', { name: contractName })
+  async getContractAddressAsync(
+    contractName: string,
+    opts?: IQueryOptions
+  ): Promise<Address | null> {
+    const addrStr = await this._readAsync<string>('resolve', { name: contractName }, opts)
     if (!addrStr) {
       return null
     }
@@ -618,6 +1451,22 @@ export class Client extends EventEmitter {
     }
   }
 
+  private _emitConnectionStateChanged = (
+    url: string,
+    state: ConnectionState,
+    attempt: number,
+    nextDelay?: number
+  ) => {
+    const eventArgs: IConnectionStateChangedEventArgs = {
+      kind: ClientEvent.ConnectionStateChanged,
+      url,
+      state,
+      attempt,
+      nextDelay
+    }
+    this.emit(ClientEvent.ConnectionStateChanged, eventArgs)
+  }
+
   private _emitNetEvent(
     url: string,
     kind: ClientEvent.Connected | ClientEvent.Disconnected | ClientEvent.Error,
@@ -632,3 +1481,57 @@ export class Client extends EventEmitter {
     }
   }
 }
+
+/**
+ * Converts an event retrieved from the DAppChain to the same form as the events emitted via
+ * `ClientEvent.Contract`.
+ */
+function eventDataToChainEventArgs(url: string, eventData: EventData): IChainEventArgs {
+  const contractAddr = eventData.getAddress()!
+  const callerAddr = eventData.getCaller()!
+  const txHashBytes = eventData.getTxHash_asU8()
+  return {
+    id: '',
+    kind: ClientEvent.Contract,
+    url,
+    contractAddress: Address.UmarshalPB(contractAddr),
+    callerAddress: Address.UmarshalPB(callerAddr),
+    blockHeight: eventData.getBlockHeight().toString(),
+    data: eventData.getEncodedBody_asU8(),
+    topics: eventData.getTopicsList(),
+    transactionHash: Uint8ArrayToB64(txHashBytes),
+    transactionHashBytes: txHashBytes
+  }
+}
+
+function throwOnCheckTxError(result: ITxHandlerResult, hash?: string, height?: number) {
+  const code = result.code || 0
+  if (code !== 0) {
+    if (code === 1 && result.log === 'sequence number does not match') {
+      throw new InvalidNonceError(code, result.log, hash, height)
+    }
+    throw new TxCheckError(code, result.log, hash, height)
+  }
+}
+
+function throwOnDeliverTxError(result: ITxHandlerResult, hash?: string, height?: number) {
+  const code = result.code || 0
+  if (code !== 0) {
+    throw new TxDeliverError(code, result.log, hash, height)
+  }
+}
+
+/**
+ * Checks if the given error is the one the node responds to the "tx" method with until the tx is
+ * committed to a block, i.e. an internal JSON-RPC error with data along the lines of
+ * "Tx (0A1B...) not found".
+ * @param err Any thrown value, typed as `{} | null | undefined` since TypeScript 2.9 has no
+ *            `unknown` type.
+ */
+function isTxNotFoundError(err: {} | null | undefined): boolean {
+  return (
+    err instanceof RPCError &&
+    err.code === JSON_RPC_INTERNAL_ERROR &&
+    TX_NOT_FOUND_PATTERN.test(String(err.data))
+  )
+}
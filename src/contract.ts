@@ -1,19 +1,25 @@
 import { Message } from 'google-protobuf'
 import EventEmitter from 'events'
 
-import { Client, ClientEvent, IChainEventArgs } from './client'
-import {
-  CallTx,
-  ContractMethodCall,
-  EncodingType,
-  MessageTx,
-  Request,
-  Response,
-  Transaction,
-  VMType
-} from './proto/loom_pb'
+import { Client, ClientEvent, IChainEventArgs, ITxCommitResult, IQueryOptions } from './client'
+import { ContractMethodCall, Response, Transaction, VMType } from './proto/loom_pb'
 import { Address } from './address'
 import { bufferToProtobufBytes } from './crypto-utils'
+import { createContractMethodCallTx } from './tx-builder'
+
+/** Result of a contract method call that was committed to the DAppChain. */
+export interface IContractCallResult<T> {
+  /** Return value (if any) of the contract method. */
+  output?: T
+  /** Hex encoded hash of the tx that called the contract method. */
+  hash: string
+  /** Height of the block the tx was committed in. */
+  height: number
+  /** Events emitted while the contract method was being executed. */
+  events: IChainEventArgs[]
+  /** Error encountered while fetching the events, if set `events` will be empty. */
+  eventsError?: any
+}
 
 /**
  * The Contract class streamlines interaction with a contract that was deployed on a Loom DAppChain.
@@ -40,6 +46,8 @@ export class Contract extends EventEmitter {
   name?: string
   address: Address
   caller: Address
+  /** Event topics this contract subscribes to, if not set all events will be received. */
+  topics?: string[]
 
   /**
    * @param params Parameters.
@@ -48,30 +56,40 @@ export class Contract extends EventEmitter {
    * @param params.callerAddr: Address of the caller, generated from the public key of the tx signer,
    *                           e.g. `new Address(client.chainId, LocalAddress.fromPublicKey(pubKey))`
    * @param params.client: Client to use to communicate with the contract.
+   * @param params.topics: Event topics to subscribe to while there are listeners for contract
+   *                       events, by default the client will receive all DAppChain events and
+   *                       filter out the ones emitted by other contracts.
    */
   constructor(params: {
     contractAddr: Address
     contractName?: string
     callerAddr: Address
     client: Client
+    topics?: string[]
   }) {
     super()
     this._client = params.client
     this.name = params.contractName
     this.address = params.contractAddr
     this.caller = params.callerAddr
+    this.topics = params.topics
 
     const emitContractEvent = this._emitContractEvent.bind(this)
+    // topics the client was asked for, an empty array if the contract wants all events
+    let subscribedTopics: string[] = []
 
     this.on('newListener', (event: string) => {
       if (event === Contract.EVENT && this.listenerCount(event) === 0) {
         this._client.on(ClientEvent.Contract, emitContractEvent)
+        subscribedTopics = this.topics || []
+        this._client.addEventTopics(subscribedTopics)
       }
     })
 
     this.on('removeListener', (event: string) => {
       if (event === Contract.EVENT && this.listenerCount(event) === 0) {
         this._client.removeListener(ClientEvent.Contract, emitContractEvent)
+        this._client.removeEventTopics(subscribedTopics)
       }
     })
   }
@@ -88,45 +106,50 @@ export class Contract extends EventEmitter {
     args: Message,
     output?: T
   ): Promise<T | void> {
-    const methodTx = new ContractMethodCall()
-    methodTx.setMethod(method)
-    methodTx.setArgs(args.serializeBinary())
-
-    const request = new Request()
-    request.setContentType(EncodingType.PROTOBUF3)
-    request.setAccept(EncodingType.PROTOBUF3)
-    request.setBody(methodTx.serializeBinary())
-
-    const callTx = new CallTx()
-    callTx.setVmType(VMType.PLUGIN)
-    callTx.setInput(request.serializeBinary())
-
-    const msgTx = new MessageTx()
-    msgTx.setFrom(this.caller.MarshalPB())
-    msgTx.setTo(this.address.MarshalPB())
-    msgTx.setData(callTx.serializeBinary())
-
-    const tx = new Transaction()
-    tx.setId(2)
-    tx.setData(msgTx.serializeBinary())
-
+    const tx = createContractMethodCallTx(this.caller, this.address, method, args)
     const result = await this._client.commitTxAsync<Transaction>(tx)
-    if (result && output) {
-      const resp = Response.deserializeBinary(bufferToProtobufBytes(result))
-      const msgClass = (<any>output).constructor as typeof Message
-      Message.copyInto(msgClass.deserializeBinary(resp.getBody_asU8()), output as Message)
-    }
+    decodeCallOutput(result, output)
     return output
   }
 
+  /**
+   * Calls a contract method that mutates state, same as callAsync(), but also returns the hash of
+   * the tx, the height of the block it was committed in, and the events emitted by the contract.
+   * @param method Contract method to call.
+   * @param args Arguments to pass to the contract method.
+   * @returns A promise that will be resolved with the result of the call.
+   */
+  async callWithResultAsync<T extends Message | void>(
+    method: string,
+    args: Message,
+    output?: T
+  ): Promise<IContractCallResult<T>> {
+    const tx = createContractMethodCallTx(this.caller, this.address, method, args)
+    const result: ITxCommitResult = await this._client.commitTxWithResultAsync<Transaction>(tx)
+    decodeCallOutput(result.output, output)
+    return {
+      output,
+      hash: result.hash,
+      height: result.height,
+      events: result.events,
+      eventsError: result.eventsError
+    }
+  }
+
   /**
    * Calls a contract method that doesn't mutate state.
    * This method is usually used to query the current contract state, it doesn't commit any txs.
    * @param method Contract method to call.
    * @param args Arguments to pass to the contract method.
+   * @param opts Options object, see IQueryOptions.
    * @returns A promise that will be resolved with the return value of the contract method.
    */
-  async staticCallAsync<T extends Message>(method: string, args: Message, output: T): Promise<T> {
+  async staticCallAsync<T extends Message>(
+    method: string,
+    args: Message,
+    output: T,
+    opts?: IQueryOptions
+  ): Promise<T> {
     const query = new ContractMethodCall()
     query.setMethod(method)
     query.setArgs(args.serializeBinary())
@@ -134,7 +157,8 @@ export class Contract extends EventEmitter {
       this.address,
       query.serializeBinary(),
       VMType.PLUGIN,
-      this.caller
+      this.caller,
+      opts
     )
     if (result && output) {
       const msgClass = (<any>output).constructor as typeof Message
@@ -143,9 +167,33 @@ export class Contract extends EventEmitter {
     return output
   }
 
+  /**
+   * Fetches the events emitted by this contract within a range of blocks.
+   * @param filter Filter object.
+   * @param filter.fromHeight Height of the first block to fetch events from.
+   * @param filter.toHeight Height of the last block to fetch events from.
+   * @param filter.topics If set only events matching at least one of these topics will be returned.
+   * @returns A promise that will be resolved with the events emitted by this contract.
+   */
+  getPastEventsAsync(filter: {
+    fromHeight: number
+    toHeight: number
+    topics?: string[]
+  }): Promise<IChainEventArgs[]> {
+    return this._client.getEventsAsync({ ...filter, contract: this.address })
+  }
+
   private _emitContractEvent(event: IChainEventArgs) {
     if (event.contractAddress.equals(this.address)) {
       this.emit(Contract.EVENT, event)
     }
   }
 }
+
+function decodeCallOutput<T extends Message | void>(result: Uint8Array | void, output?: T) {
+  if (result && output) {
+    const resp = Response.deserializeBinary(bufferToProtobufBytes(result))
+    const msgClass = (<any>output).constructor as typeof Message
+    Message.copyInto(msgClass.deserializeBinary(resp.getBody_asU8()), output as Message)
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Thrown when a tx is rejected by the DAppChain before it's committed to a block (during CheckTx).
+ */
+export class TxCheckError extends Error {
+  /** ABCI response code. */
+  code: number
+  /** Error message returned by the DAppChain (if any). */
+  log?: string
+  /** Hex encoded hash of the tx (if known). */
+  hash?: string
+  /** Height of the block the tx was meant to be committed to (if known). */
+  height?: number
+
+  constructor(
+    code: number,
+    log?: string,
+    hash?: string,
+    height?: number,
+    message: string = `Failed to commit Tx: ${log || code}`
+  ) {
+    super(message)
+    // Restore the prototype chain, extending Error is broken when targeting ES5.
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'TxCheckError'
+    this.code = code
+    this.log = log
+    this.hash = hash
+    this.height = height
+  }
+}
+
+/**
+ * Thrown when a tx is rejected by the DAppChain because its nonce doesn't match the nonce the
+ * DAppChain expects for the tx signer.
+ */
+export class InvalidNonceError extends TxCheckError {
+  constructor(code: number, log?: string, hash?: string, height?: number) {
+    super(code, log, hash, height, 'Invalid tx nonce')
+    this.name = 'InvalidNonceError'
+  }
+}
+
+/**
+ * Thrown when a tx is committed to a block, but the contract that processed it returned an error
+ * (during DeliverTx).
+ */
+export class TxDeliverError extends Error {
+  /** ABCI response code. */
+  code: number
+  /** Error message returned by the DAppChain (if any). */
+  log?: string
+  /** Hex encoded hash of the tx (if known). */
+  hash?: string
+  /** Height of the block the tx was committed to (if known). */
+  height?: number
+
+  constructor(code: number, log?: string, hash?: string, height?: number) {
+    super(`Failed to commit Tx: ${log || code}`)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'TxDeliverError'
+    this.code = code
+    this.log = log
+    this.hash = hash
+    this.height = height
+  }
+}
+
+/**
+ * Thrown when the DAppChain responds to a JSON-RPC request with an error.
+ */
+export class RPCError extends Error {
+  /** JSON-RPC error code. */
+  code: number
+  /** Additional information about the error provided by the server. */
+  data: any
+
+  constructor(code: number, message: string, data: any) {
+    super(`JSON-RPC Error ${code} (${message}): ${data}`)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'RPCError'
+    this.code = code
+    this.data = data
+  }
+}
+
+/**
+ * Thrown when an operation doesn't complete within the allotted time.
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled via a CancellationToken before it completes.
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'CancelledError'
+  }
+}
+
+/**
+ * Thrown when a request waits longer than allowed for the client-side rate limiter to let it
+ * through.
+ */
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'RateLimitError'
+  }
+}
@@ -1,8 +1,9 @@
 import EventEmitter from 'events'
 
-import { Client, ClientEvent, IChainEventArgs } from './client'
-import { CallTx, MessageTx, Transaction, VMType } from './proto/loom_pb'
+import { Client, ClientEvent, IChainEventArgs, IQueryOptions } from './client'
+import { Transaction, VMType } from './proto/loom_pb'
 import { Address } from './address'
+import { createEvmCallTx } from './tx-builder'
 
 /**
  * The EvmContract class streamlines interaction with a contract that was
@@ -21,6 +22,8 @@ export class EvmContract extends EventEmitter {
 
   address: Address
   caller: Address
+  /** Event topics this contract subscribes to, if not set all events will be received. */
+  topics?: string[]
 
   /**
    * @param params Parameters.
@@ -28,24 +31,38 @@ export class EvmContract extends EventEmitter {
    * @param params.callerAddr: Address of the caller, generated from the public key of the tx signer,
    *                           e.g. `new Address(client.chainId, LocalAddress.fromPublicKey(pubKey))`
    * @param params.client: Client to use to communicate with the contract.
+   * @param params.topics: Event topics to subscribe to while there are listeners for contract
+   *                       events, by default the client will receive all DAppChain events and
+   *                       filter out the ones emitted by other contracts.
    */
-  constructor(params: { contractAddr: Address; callerAddr: Address; client: Client }) {
+  constructor(params: {
+    contractAddr: Address
+    callerAddr: Address
+    client: Client
+    topics?: string[]
+  }) {
     super()
     this._client = params.client
     this.address = params.contractAddr
     this.caller = params.callerAddr
+    this.topics = params.topics
 
     const emitContractEvent = this._emitContractEvent.bind(this)
+    // topics the client was asked for, an empty array if the contract wants all events
+    let subscribedTopics: string[] = []
 
     this.on('newListener', (event: string) => {
       if (event === EvmContract.EVENT && this.listenerCount(event) === 0) {
         this._client.on(ClientEvent.Contract, emitContractEvent)
+        subscribedTopics = this.topics || []
+        this._client.addEventTopics(subscribedTopics)
       }
     })
 
     this.on('removeListener', (event: string) => {
       if (event === EvmContract.EVENT && this.listenerCount(event) === 0) {
         this._client.removeListener(ClientEvent.Contract, emitContractEvent)
+        this._client.removeEventTopics(subscribedTopics)
       }
     })
   }
@@ -57,31 +74,39 @@ export class EvmContract extends EventEmitter {
    * @returns A promise that will be resolved with return value (if any) of the contract method.
    */
   async callAsync(args: number[], output?: Uint8Array): Promise<Uint8Array | void> {
-    const ui8InData = Uint8Array.from(args)
-    const callTx = new CallTx()
-    callTx.setVmType(VMType.EVM)
-    callTx.setInput(ui8InData)
-
-    const msgTx = new MessageTx()
-    msgTx.setFrom(this.caller.MarshalPB())
-    msgTx.setTo(this.address.MarshalPB())
-    msgTx.setData(callTx.serializeBinary())
-
-    const tx = new Transaction()
-    tx.setId(2)
-    tx.setData(msgTx.serializeBinary())
-
+    const tx = createEvmCallTx(this.caller, this.address, Uint8Array.from(args))
     return this._client.commitTxAsync<Transaction>(tx)
   }
   /**
    * Calls a method of a contract running on an EVM that doesn't mutate state.
    * This method is usually used to query the current contract state, it doesn't commit any txs.
    * @param args ABI encoded function signature and input paramters.
+   * @param opts Options object, see IQueryOptions.
    * @returns A promise that will be resolved with the return value of the contract method.
    */
-  async staticCallAsync(args: number[], output?: Uint8Array): Promise<Uint8Array | void> {
+  async staticCallAsync(
+    args: number[],
+    output?: Uint8Array,
+    opts?: IQueryOptions
+  ): Promise<Uint8Array | void> {
     const ui8InData = Uint8Array.from(args)
-    return this._client.queryAsync(this.address, ui8InData, VMType.EVM, this.caller)
+    return this._client.queryAsync(this.address, ui8InData, VMType.EVM, this.caller, opts)
+  }
+
+  /**
+   * Fetches the events emitted by this contract within a range of blocks.
+   * @param filter Filter object.
+   * @param filter.fromHeight Height of the first block to fetch events from.
+   * @param filter.toHeight Height of the last block to fetch events from.
+   * @param filter.topics If set only events matching at least one of these topics will be returned.
+   * @returns A promise that will be resolved with the events emitted by this contract.
+   */
+  getPastEventsAsync(filter: {
+    fromHeight: number
+    toHeight: number
+    topics?: string[]
+  }): Promise<IChainEventArgs[]> {
+    return this._client.getEventsAsync({ ...filter, contract: this.address })
   }
 
   private _emitContractEvent(event: IChainEventArgs) {
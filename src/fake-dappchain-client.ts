@@ -0,0 +1,666 @@
+import EventEmitter from 'events'
+import nacl from 'tweetnacl'
+import ethutil from 'ethereumjs-util'
+import debug from 'debug'
+
+import {
+  CallTx,
+  ContractMethodCall,
+  EncodingType,
+  EventData,
+  EventDataList,
+  MessageTx,
+  NonceTx,
+  Request,
+  Response,
+  SignedTx,
+  Transaction,
+  VMType
+} from './proto/loom_pb'
+import { Address, LocalAddress } from './address'
+import {
+  bytesToHex,
+  Uint8ArrayToB64,
+  B64ToUint8Array,
+  bufferToProtobufBytes
+} from './crypto-utils'
+import { RPCError, TimeoutError } from './errors'
+import { delayAsync } from './cancellation'
+import {
+  IJSONRPCClient,
+  IJSONRPCBatchRequest,
+  IJSONRPCBatchResult,
+  IRequestOptions,
+  RPCClientEvent,
+  ConnectionState
+} from './internal/json-rpc-client'
+import { IEventData, IJSONRPCEvent } from './internal/ws-rpc-client'
+import { RPCMetrics, IRPCStats } from './internal/rpc-metrics'
+import { EventTopics } from './internal/event-topics'
+
+const log = debug('fake-dappchain-client')
+
+/** Context a fake contract method is invoked with. */
+export interface IFakeContractContext {
+  /** Address of the contract being called. */
+  address: Address
+  /** Address of the caller, for queries this will only be set if the caller specified it. */
+  caller?: Address
+  /** Height of the block the tx will be committed in, or the current height for queries. */
+  blockHeight: number
+  /** Set to `true` when the method is invoked to answer a query rather than a tx. */
+  isQuery: boolean
+  /**
+   * Emits an event from the contract, the event will only be delivered if the tx is committed.
+   * Events can't be emitted from queries.
+   */
+  emitEvent(data: Uint8Array, topics?: string[]): void
+}
+
+/**
+ * Fake contract method, receives the protobuf encoded method arguments and may return the protobuf
+ * encoded result. Throwing an error causes the tx (or query) to fail.
+ */
+export type FakeContractMethod = (
+  ctx: IFakeContractContext,
+  args: Uint8Array
+) => Uint8Array | void | Promise<Uint8Array | void>
+
+/** Methods of a fake contract, keyed by method name. */
+export interface IFakeContract {
+  [method: string]: FakeContractMethod
+}
+
+/** Kinds of faults a FakeDAppChainClient can be told to simulate. */
+export enum FakeFaultKind {
+  /**
+   * The tx is rejected because its nonce doesn't match (only applies to broadcast_tx_commit &
+   * broadcast_tx_sync).
+   */
+  InvalidNonce = 'invalidNonce',
+  /** The request doesn't get a response, and times out. */
+  Timeout = 'timeout',
+  /** The request fails because the node can't be reached. */
+  NetworkError = 'networkError'
+}
+
+export interface IFakeFault {
+  kind: FakeFaultKind
+  /** RPC method the fault applies to, if not set the fault applies to the next request. */
+  method?: string
+  /** Number of requests the fault applies to, defaults to 1. */
+  count?: number
+}
+
+interface IFakeContractEntry {
+  name: string
+  address: Address
+  methods: IFakeContract
+}
+
+interface IFakeEvent {
+  caller: Address
+  address: Address
+  contractName: string
+  blockHeight: number
+  data: Uint8Array
+  topics: string[]
+  txHash: Uint8Array
+}
+
+interface ITxHandlerResult {
+  code?: number
+  log?: string
+  data?: string
+}
+
+/** Result of a committed tx, in the form it's returned by the tx RPC method. */
+interface IFakeTxResult {
+  hash: string
+  height: string
+  tx_result: ITxHandlerResult
+}
+
+/** Tx that went through CheckTx, the decoded tx is only set if the tx passed CheckTx. */
+interface ICheckedTx {
+  hash: string
+  hashBytes: Uint8Array
+  check_tx: ITxHandlerResult
+  caller?: Address
+  msgTx?: MessageTx
+  callTx?: CallTx
+}
+
+/**
+ * In-memory stand-in for a Loom DAppChain node, can be passed to `Client` in place of a real RPC
+ * client to test app code without running a loomchain node.
+ *
+ * Only plugin (Go) contracts are supported, their methods are implemented as JS functions. The
+ * fake verifies the tx signature and nonce of each tx it receives, and handles the following RPC
+ * methods: broadcast_tx_commit, broadcast_tx_sync, broadcast_tx_async, tx, query, nonce, resolve,
+ * getblockheight, getevents, subevents and unsubevents. Txs sent via broadcast_tx_commit are
+ * committed right away, txs sent via broadcast_tx_sync & broadcast_tx_async are committed once the
+ * block interval elapses.
+ *
+ * import { FakeDAppChainClient, FakeFaultKind } from 'loom-js/dist/testing'
+ *
+ * const fake = new FakeDAppChainClient()
+ * const address = fake.registerContract('BluePrint', {
+ *   SetMsg: (ctx, args) => { ... },
+ *   GetMsg: (ctx, args) => { ... }
+ * })
+ * const client = new Client('default', fake)
+ * fake.injectFault({ kind: FakeFaultKind.InvalidNonce })
+ */
+export class FakeDAppChainClient extends EventEmitter implements IJSONRPCClient {
+  private _contracts = new Map<string, IFakeContractEntry>()
+  private _nonces = new Map<string, number>()
+  private _events: IFakeEvent[] = []
+  private _faults: IFakeFault[] = []
+  private _blockHeight: number = 0
+  private _txResults = new Map<string, IFakeTxResult>()
+  /** Timers for txs waiting to be committed. */
+  private _timers: any[] = []
+  private _isSubscribed: boolean = false
+  private _metrics = new RPCMetrics()
+  /** Number of subscribers interested in each event topic. */
+  private _topics = new EventTopics()
+
+  readonly url: string
+  readonly chainId: string
+  requestTimeout: number
+  /** Number of milliseconds txs sent via broadcast_tx_sync & broadcast_tx_async wait to be committed. */
+  blockInterval: number
+
+  get isSubscribed(): boolean {
+    return this._isSubscribed
+  }
+
+  get connectionState(): ConnectionState {
+    return ConnectionState.Open
+  }
+
+  /** Height of the last block, each committed tx is put in a new block. */
+  get blockHeight(): number {
+    return this._blockHeight
+  }
+
+  /**
+   * @param opts Options object.
+   * @param opts.chainId DAppChain identifier, defaults to "default".
+   * @param opts.url URL reported by the client, defaults to "fake://dappchain".
+   * @param opts.requestTimeout Number of milliseconds simulated timeouts take, defaults to 1 second.
+   * @param opts.blockInterval Number of milliseconds txs sent via broadcast_tx_sync &
+   *                           broadcast_tx_async wait to be committed, defaults to 0.
+   */
+  constructor(
+    opts: { chainId?: string; url?: string; requestTimeout?: number; blockInterval?: number } = {}
+  ) {
+    super()
+    const {
+      chainId = 'default',
+      url = 'fake://dappchain',
+      requestTimeout = 1000,
+      blockInterval = 0
+    } = opts
+    this.chainId = chainId
+    this.url = url
+    this.requestTimeout = requestTimeout
+    this.blockInterval = blockInterval
+
+    // like WSRPCClient, subscribe to events as soon as someone's interested in them
+    this.on('newListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        this._setSubscribed(true)
+      }
+    })
+    this.on('removeListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        this._setSubscribed(false)
+      }
+    })
+  }
+
+  /**
+   * Deploys a fake plugin contract.
+   * @param name Name the contract address can be resolved from.
+   * @param methods Contract methods.
+   * @param address Contract address, if not set an address will be derived from the name.
+   * @returns Address of the contract.
+   */
+  registerContract(name: string, methods: IFakeContract, address?: Address): Address {
+    const contractAddr =
+      address ||
+      new Address(
+        this.chainId,
+        new LocalAddress(ethutil.sha256(Buffer.from(name, 'utf8')).slice(0, 20))
+      )
+    this._contracts.set(contractAddr.local.toString(), { name, address: contractAddr, methods })
+    return contractAddr
+  }
+
+  /**
+   * Makes the fake simulate a fault, faults are applied in the order they're injected.
+   */
+  injectFault(fault: IFakeFault) {
+    this._faults.push({ count: 1, ...fault })
+  }
+
+  /** Removes all the faults that haven't been applied yet. */
+  clearFaults() {
+    this._faults = []
+  }
+
+  /**
+   * Sets the nonce of the last tx committed by the signer with the given public key.
+   * @param key Hex encoded public key.
+   */
+  setNonce(key: string, nonce: number) {
+    this._nonces.set(key.toUpperCase(), nonce)
+  }
+
+  /** Drops any txs that haven't been committed yet. */
+  disconnect() {
+    this._timers.forEach(timer => clearTimeout(timer))
+    this._timers = []
+    this.removeAllListeners()
+  }
+
+  reconnect() {
+    // no connection, so do nothing
+  }
+
+  ensureConnectionAsync(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  addTopics(topics: string[]) {
+    this._topics.add(topics)
+  }
+
+  removeTopics(topics: string[]) {
+    this._topics.remove(topics)
+  }
+
+  sendAsync<T>(method: string, params: any, opts: IRequestOptions = {}): Promise<T> {
+    return this._metrics.measureAsync(
+      method,
+      () => this._sendAsync<T>(method, params, opts),
+      (method, latency, err) =>
+        this.emit(RPCClientEvent.RequestCompleted, this.url, method, latency, err)
+    )
+  }
+
+  async sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    const results: IJSONRPCBatchResult[] = []
+    for (let i = 0; i < requests.length; i++) {
+      try {
+        results.push({ result: await this.sendAsync(requests[i].method, requests[i].params) })
+      } catch (err) {
+        results.push({ error: err })
+      }
+    }
+    return results
+  }
+
+  getStats(): IRPCStats {
+    return this._metrics.getStats()
+  }
+
+  resetStats() {
+    this._metrics.reset()
+  }
+
+  private async _sendAsync<T>(method: string, params: any, opts: IRequestOptions): Promise<T> {
+    const { timeout = this.requestTimeout, cancellationToken } = opts
+    if (cancellationToken) {
+      cancellationToken.throwIfCancelled()
+    }
+    const fault = this._takeFault(method)
+    if (fault && fault.kind === FakeFaultKind.Timeout) {
+      await delayAsync(timeout, cancellationToken)
+      throw new TimeoutError(
+        `[FakeDAppChainClient] Timeout while waiting for response to ${method}`
+      )
+    } else if (fault && fault.kind === FakeFaultKind.NetworkError) {
+      const err: any = new Error(`connect ECONNREFUSED ${this.url}`)
+      err.code = 'ECONNREFUSED'
+      throw err
+    }
+    log(`Handling ${method}`)
+    return this._handleAsync(method, params, fault)
+  }
+
+  private _takeFault(method: string): IFakeFault | undefined {
+    const index = this._faults.findIndex(
+      fault =>
+        (!fault.method || fault.method === method) &&
+        (fault.kind !== FakeFaultKind.InvalidNonce ||
+          method === 'broadcast_tx_commit' ||
+          method === 'broadcast_tx_sync')
+    )
+    if (index === -1) {
+      return undefined
+    }
+    const fault = this._faults[index]
+    fault.count!--
+    if (fault.count! <= 0) {
+      this._faults.splice(index, 1)
+    }
+    return fault
+  }
+
+  private async _handleAsync(method: string, params: any, fault?: IFakeFault): Promise<any> {
+    switch (method) {
+      case 'broadcast_tx_commit':
+        return this._broadcastTxCommitAsync(B64ToUint8Array(params[0]), fault)
+      case 'broadcast_tx_sync':
+      case 'broadcast_tx_async':
+        return this._broadcastTxAsync(method, B64ToUint8Array(params[0]), fault)
+      case 'tx':
+        return this._getTxResult(params)
+      case 'query':
+        return this._queryAsync(params)
+      case 'nonce':
+        return this._nonces.get(params.key.toUpperCase()) || 0
+      case 'resolve': {
+        let resolved: string | null = null
+        this._contracts.forEach(contract => {
+          if (contract.name === params.name) {
+            resolved = contract.address.toString()
+          }
+        })
+        return resolved
+      }
+      case 'getblockheight':
+        return this._blockHeight
+      case 'getevents':
+        return this._getEvents(params)
+      case 'subevents':
+      case 'unsubevents':
+        this._setSubscribed(method === 'subevents')
+        return true
+      default:
+        throw new RPCError(-32601, 'Method not found', method)
+    }
+  }
+
+  private async _broadcastTxCommitAsync(txBytes: Uint8Array, fault?: IFakeFault) {
+    const checked = this._checkTx(txBytes, fault)
+    const result = {
+      check_tx: checked.check_tx,
+      deliver_tx: {} as ITxHandlerResult,
+      hash: checked.hash,
+      height: '0'
+    }
+    if (checked.check_tx.code) {
+      return result
+    }
+    const committed = await this._deliverTxAsync(checked)
+    result.deliver_tx = committed.tx_result
+    result.height = committed.height
+    return result
+  }
+
+  /**
+   * Runs CheckTx right away (unless the mode is broadcast_tx_async), and commits the tx once the
+   * block interval elapses.
+   */
+  private _broadcastTxAsync(method: string, txBytes: Uint8Array, fault?: IFakeFault) {
+    if (method === 'broadcast_tx_async') {
+      this._schedule(() => {
+        const checked = this._checkTx(txBytes)
+        if (checked.check_tx.code) {
+          log(`Dropping tx ${checked.hash}: ${checked.check_tx.log}`)
+          return
+        }
+        return this._deliverTxAsync(checked)
+      })
+      return { hash: getTxHash(txBytes).hash }
+    }
+    const checked = this._checkTx(txBytes, fault)
+    if (!checked.check_tx.code) {
+      this._schedule(() => this._deliverTxAsync(checked))
+    }
+    return { ...checked.check_tx, hash: checked.hash }
+  }
+
+  private _schedule(fn: () => Promise<any> | void) {
+    const timer = setTimeout(() => {
+      this._timers.splice(this._timers.indexOf(timer), 1)
+      Promise.resolve(fn()).catch(err => log(`Failed to commit tx: ${err.message}`))
+    }, this.blockInterval)
+    this._timers.push(timer)
+  }
+
+  private _checkTx(txBytes: Uint8Array, fault?: IFakeFault): ICheckedTx {
+    const { hash, hashBytes } = getTxHash(txBytes)
+    const result = (reason: string): ICheckedTx => ({
+      hash,
+      hashBytes,
+      check_tx: { code: 1, log: reason }
+    })
+    if (fault && fault.kind === FakeFaultKind.InvalidNonce) {
+      return result('sequence number does not match')
+    }
+
+    let signedTx: SignedTx
+    let nonceTx: NonceTx
+    let msgTx: MessageTx
+    let callTx: CallTx
+    try {
+      signedTx = SignedTx.deserializeBinary(bufferToProtobufBytes(txBytes))
+      nonceTx = NonceTx.deserializeBinary(bufferToProtobufBytes(signedTx.getInner_asU8()))
+      const tx = Transaction.deserializeBinary(bufferToProtobufBytes(nonceTx.getInner_asU8()))
+      if (tx.getId() !== 2) {
+        return result('only contract calls are supported')
+      }
+      msgTx = MessageTx.deserializeBinary(bufferToProtobufBytes(tx.getData_asU8()))
+      callTx = CallTx.deserializeBinary(bufferToProtobufBytes(msgTx.getData_asU8()))
+    } catch (err) {
+      return result(`failed to decode tx: ${err.message}`)
+    }
+
+    const pubKey = signedTx.getPublicKey_asU8()
+    const isSigned =
+      pubKey.length === nacl.sign.publicKeyLength &&
+      nacl.sign.detached.verify(signedTx.getInner_asU8(), signedTx.getSignature_asU8(), pubKey)
+    if (!isSigned) {
+      return result('invalid signature')
+    }
+    const key = bytesToHex(pubKey)
+    const nonce = this._nonces.get(key) || 0
+    if (nonceTx.getSequence() !== nonce + 1) {
+      return result('sequence number does not match')
+    }
+    const caller = Address.UmarshalPB(msgTx.getFrom()!)
+    if (!caller.local.equals(LocalAddress.fromPublicKey(pubKey))) {
+      return result("Origin doesn't match caller")
+    }
+
+    // the nonce is used up once the tx passes CheckTx, even if the contract call fails
+    this._nonces.set(key, nonce + 1)
+    return { hash, hashBytes, check_tx: {}, caller, msgTx, callTx }
+  }
+
+  /**
+   * Commits a tx that passed CheckTx in a new block.
+   */
+  private async _deliverTxAsync(checked: ICheckedTx): Promise<IFakeTxResult> {
+    const { hash, hashBytes, caller, msgTx, callTx } = checked
+    const height = this._blockHeight + 1
+    this._blockHeight = height
+    const result: IFakeTxResult = { hash, height: height.toString(), tx_result: {} }
+    this._txResults.set(hash, result)
+    const events: IFakeEvent[] = []
+    try {
+      if (callTx!.getVmType() !== VMType.PLUGIN) {
+        throw new Error('only plugin contracts are supported')
+      }
+      const request = Request.deserializeBinary(bufferToProtobufBytes(callTx!.getInput_asU8()))
+      const output = await this._callAsync(
+        Address.UmarshalPB(msgTx!.getTo()!),
+        caller,
+        request.getBody_asU8(),
+        height,
+        (contract, data, topics) =>
+          events.push({
+            caller: caller!,
+            address: contract.address,
+            contractName: contract.name,
+            blockHeight: height,
+            data,
+            topics,
+            txHash: hashBytes
+          })
+      )
+      if (output) {
+        const resp = new Response()
+        resp.setContentType(EncodingType.PROTOBUF3)
+        resp.setBody(output)
+        result.tx_result = { data: Uint8ArrayToB64(resp.serializeBinary()) }
+      }
+    } catch (err) {
+      result.tx_result = { code: 1, log: err.message }
+      return result
+    }
+    events.forEach(event => {
+      this._events.push(event)
+      this._emitEvent(event)
+    })
+    return result
+  }
+
+  private _getTxResult(params: { hash: string }): IFakeTxResult {
+    const hash = bytesToHex(B64ToUint8Array(params.hash))
+    const result = this._txResults.get(hash)
+    if (!result) {
+      throw new RPCError(-32603, 'Internal error', `Tx (${hash}) not found`)
+    }
+    return result
+  }
+
+  private async _queryAsync(params: {
+    contract: string
+    query?: string
+    vmType: VMType
+    caller?: string
+  }): Promise<string | null> {
+    if (params.vmType !== VMType.PLUGIN) {
+      throw new RPCError(-32603, 'Internal error', 'only plugin contracts are supported')
+    }
+    try {
+      const contract = this._contracts.get(params.contract)
+      if (!contract) {
+        throw new Error(`contract not found: ${params.contract}`)
+      }
+      const output = await this._callAsync(
+        contract.address,
+        params.caller ? Address.fromString(params.caller) : undefined,
+        params.query ? B64ToUint8Array(params.query) : new Uint8Array(0),
+        this._blockHeight
+      )
+      return output ? Uint8ArrayToB64(output) : null
+    } catch (err) {
+      throw new RPCError(-32603, 'Internal error', err.message)
+    }
+  }
+
+  /**
+   * Invokes a fake contract method.
+   * @param contractAddr Address of the contract to call.
+   * @param caller Address of the caller.
+   * @param callBytes Encoded ContractMethodCall.
+   * @param height Block height to report to the contract.
+   * @param emitEvent Collects the events emitted by the contract, not set for queries.
+   */
+  private async _callAsync(
+    contractAddr: Address,
+    caller: Address | undefined,
+    callBytes: Uint8Array,
+    height: number,
+    emitEvent?: (contract: IFakeContractEntry, data: Uint8Array, topics: string[]) => void
+  ): Promise<Uint8Array | void> {
+    const contract = this._contracts.get(contractAddr.local.toString())
+    if (!contract) {
+      throw new Error(`contract not found: ${contractAddr.toString()}`)
+    }
+    const call = ContractMethodCall.deserializeBinary(bufferToProtobufBytes(callBytes))
+    const method = contract.methods[call.getMethod()]
+    if (!method) {
+      throw new Error(`method not found: ${call.getMethod()}`)
+    }
+    const ctx: IFakeContractContext = {
+      address: contract.address,
+      caller,
+      blockHeight: height,
+      isQuery: !emitEvent,
+      emitEvent: (data, topics = []) => {
+        if (!emitEvent) {
+          throw new Error('events can not be emitted from a query')
+        }
+        emitEvent(contract, data, topics)
+      }
+    }
+    return method(ctx, call.getArgs_asU8())
+  }
+
+  private _getEvents(params: { fromBlock: number; toBlock: number; contract?: string }): string {
+    const eventList = new EventDataList()
+    eventList.setEventsList(
+      this._events
+        .filter(
+          event =>
+            event.blockHeight >= params.fromBlock &&
+            event.blockHeight <= params.toBlock &&
+            (!params.contract || event.address.local.toString() === params.contract)
+        )
+        .map(event => {
+          const eventData = new EventData()
+          eventData.setCaller(event.caller.MarshalPB())
+          eventData.setAddress(event.address.MarshalPB())
+          eventData.setPluginName(event.contractName)
+          eventData.setBlockHeight(event.blockHeight)
+          eventData.setEncodedBody(event.data)
+          eventData.setTopicsList(event.topics)
+          eventData.setTxHash(event.txHash)
+          return eventData
+        })
+    )
+    return Uint8ArrayToB64(eventList.serializeBinary())
+  }
+
+  private _setSubscribed(isSubscribed: boolean) {
+    this._isSubscribed = isSubscribed
+    this.emit(RPCClientEvent.Subscribed, this.url, isSubscribed)
+  }
+
+  private _emitEvent(event: IFakeEvent) {
+    if (!this._isSubscribed) {
+      return
+    }
+    if (!this._topics.matches(event.topics)) {
+      return
+    }
+    const result: IEventData = {
+      caller: { chain_id: event.caller.chainId, local: Uint8ArrayToB64(event.caller.local.bytes) },
+      address: {
+        chain_id: event.address.chainId,
+        local: Uint8ArrayToB64(event.address.local.bytes)
+      },
+      block_height: event.blockHeight.toString(),
+      encoded_body: Uint8ArrayToB64(event.data),
+      tx_hash: Uint8ArrayToB64(event.txHash),
+      topics: event.topics
+    }
+    const msg: IJSONRPCEvent = { id: '0', result }
+    this.emit(RPCClientEvent.Message, this.url, msg)
+  }
+}
+
+function getTxHash(txBytes: Uint8Array): { hash: string; hashBytes: Uint8Array } {
+  const hashBytes = new Uint8Array(
+    ethutil.sha256(Buffer.from(txBytes.buffer, txBytes.byteOffset, txBytes.byteLength))
+  )
+  return { hash: bytesToHex(hashBytes), hashBytes }
+}
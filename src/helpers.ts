@@ -1,17 +1,31 @@
 import { Client, ITxMiddlewareHandler } from './client'
-import { NonceTxMiddleware, SignedTxMiddleware } from './middleware'
-import { publicKeyFromPrivateKey } from './crypto-utils'
+import { NonceTxMiddleware, SignedTxMiddleware, FixedNonceTxMiddleware } from './middleware'
+import { ISigner, toSigner } from './signer'
 
 /**
  * Creates the default set of tx middleware required to successfully commit a tx to a Loom DAppChain.
  * @param client The client the middleware is being created for.
- * @param privateKey Private key that should be used to sign txs.
+ * @param privateKeyOrSigner Private key, or signer, that should be used to sign txs.
  * @returns Set of middleware.
  */
 export function createDefaultTxMiddleware(
   client: Client,
-  privateKey: Uint8Array
+  privateKeyOrSigner: Uint8Array | ISigner
 ): ITxMiddlewareHandler[] {
-  const pubKey = publicKeyFromPrivateKey(privateKey)
-  return [new NonceTxMiddleware(pubKey, client), new SignedTxMiddleware(privateKey)]
+  const signer = toSigner(privateKeyOrSigner)
+  return [new NonceTxMiddleware(signer, client), new SignedTxMiddleware(signer)]
+}
+
+/**
+ * Creates the set of tx middleware required to sign a tx without a connection to a Loom DAppChain.
+ * @param privateKeyOrSigner Private key, or signer, that should be used to sign txs.
+ * @param nonce Nonce of the last tx committed by the signer, as returned by
+ *              `Client.getNonceAsync()`.
+ * @returns Set of middleware.
+ */
+export function createOfflineTxMiddleware(
+  privateKeyOrSigner: Uint8Array | ISigner,
+  nonce: number
+): ITxMiddlewareHandler[] {
+  return [new FixedNonceTxMiddleware(nonce), new SignedTxMiddleware(privateKeyOrSigner)]
 }
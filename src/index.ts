@@ -1,23 +1,70 @@
 export {
   Client,
   ClientEvent,
+  BroadcastTxMode,
   IClientEventArgs,
   IChainEventArgs,
   IClientErrorEventArgs,
-  ITxMiddlewareHandler
+  ITxBuiltEventArgs,
+  ITxSentEventArgs,
+  INonceRetryEventArgs,
+  ITxCommittedEventArgs,
+  ITxFailedEventArgs,
+  IEvmSubscriptionLostEventArgs,
+  IEventPollErrorEventArgs,
+  IConnectionStateChangedEventArgs,
+  TxFailureReason,
+  ITxMiddlewareHandler,
+  IQueryMiddlewareHandler,
+  IQueryRequest,
+  IQueryOptions,
+  ITxCommitResult,
+  isInvalidTxNonceError
 } from './client'
-export { Contract } from './contract'
+export { Contract, IContractCallResult } from './contract'
 export { EvmContract } from './evm-contract'
 export { Address, LocalAddress } from './address'
-export { SignedTxMiddleware, NonceTxMiddleware } from './middleware'
-export { createDefaultTxMiddleware } from './helpers'
+export { SignedTxMiddleware, NonceTxMiddleware, FixedNonceTxMiddleware } from './middleware'
+export { createDefaultTxMiddleware, createOfflineTxMiddleware } from './helpers'
+export { ISigner, LocalSigner, RemoteSigner, IRemoteSignerOptions } from './signer'
+export {
+  createContractMethodCallTx,
+  createEvmCallTx,
+  createEvmDeployTx,
+  signTxAsync
+} from './tx-builder'
 export { LoomProvider } from './loom-provider'
+export { NonceManager } from './nonce-manager'
+export { QueryCache, IQueryCacheStats } from './query-cache'
+export {
+  TxCheckError,
+  TxDeliverError,
+  InvalidNonceError,
+  RPCError,
+  TimeoutError,
+  CancelledError,
+  RateLimitError
+} from './errors'
+export { CancellationToken } from './cancellation'
 
 import * as CryptoUtils from './crypto-utils'
 export { CryptoUtils }
 
-export { IJSONRPCClient } from './internal/json-rpc-client'
+export {
+  IJSONRPCClient,
+  IJSONRPCBatchRequest,
+  IJSONRPCBatchResult,
+  IRequestOptions,
+  ConnectionState,
+  getConnectionState,
+  sendBatchWithFallbackAsync
+} from './internal/json-rpc-client'
 export { createJSONRPCClient, IJSONRPCProtocolOptions } from './rpc-client-factory'
+export { PooledRPCClient, PoolRoutingStrategy } from './internal/pooled-rpc-client'
+export { IRetryPolicy, isTransientError } from './internal/retry-policy'
+export { IRPCStats, IRPCMethodStats, IRPCLatencyBucket } from './internal/rpc-metrics'
+export { IRPCAuthOptions, AuthTokenProvider } from './internal/rpc-auth'
+export { IRateLimit, IRateLimitOptions, RequestPriority } from './internal/rate-limiter'
 
 // The Plasma Cash client API should be considered experimental, interfaces are likely to change.
 export { DAppChainPlasmaClient } from './plasma-cash/dappchain-client'
@@ -1,21 +1,70 @@
-import { EventEmitter } from 'events'
+import debug from 'debug'
 
-import { IJSONRPCRequest, IJSONRPCResponse, JSONRPCProtocol } from './json-rpc-client'
+import {
+  IJSONRPCBatchRequest,
+  IJSONRPCBatchResult,
+  IRequestOptions,
+  JSONRPCProtocol,
+  RPCClientEvent,
+  sendOneByOneAsync
+} from './json-rpc-client'
 import { WSRPCClient } from './ws-rpc-client'
 import { HTTPRPCClient } from './http-rpc-client'
+import { IRetryPolicy, isTransientError, isBroadcastMethod } from './retry-policy'
+import { IRPCStats, mergeRPCStats } from './rpc-metrics'
+import { IRPCAuthOptions } from './rpc-auth'
+import { IRateLimitOptions } from './rate-limiter'
+import { isEvmSubscriptionMethod } from './evm-subscription-registry'
+
+const log = debug('dual-rpc-client')
+
+/** Outcome of a request sent via DualRPCClient.sendWithProtocolAsync(). */
+export interface IDualRPCResult<T> {
+  /** Value of the result field (if any) in the JSON-RPC response message. */
+  result: T
+  /** Protocol the request was sent via. */
+  protocol: JSONRPCProtocol
+}
 
 /**
  * Sends JSON-RPC messages via HTTP or WebSocket, and listens to events via WebSocket.
+ *
+ * Requests are sent via the primary protocol, if that fails because of a network error or timeout
+ * the request is resent via the other protocol. Requests that create, poll, or remove EVM
+ * subscriptions & filters are always sent via WebSocket, since subscription messages can only be
+ * pushed to the client via WebSocket, and only subscriptions created via WebSocket are recreated
+ * when the socket reconnects.
  */
 export class DualRPCClient extends WSRPCClient {
   private _http: HTTPRPCClient
   private _protocol: JSONRPCProtocol
 
+  /** Primary protocol used to send requests. */
+  get protocol(): JSONRPCProtocol {
+    return this._protocol
+  }
+
   /**
    * @param opts.httpUrl HTTP URL to send requests to.
    * @param opts.wsUrl WebSocket URL to connect to.
    * @param opts.protocol Primary protocol to use to send requests, defaults to HTTP.
    * @param opts.requestTimeout Number of milliseconds to wait for a network operation to complete.
+   * @param opts.autoBatch If `true` requests made within the same tick will be sent to the HTTP
+   *                       endpoint in a single JSON-RPC batch, defaults to `false`.
+   * @param opts.maxBatchSize Maximum number of requests to send in a single batch when
+   *                          `autoBatch` is enabled.
+   * @param opts.retryPolicy If set requests that fail because of network errors, timeouts, or
+   *                         server errors will be resent according to this policy.
+   * @param opts.heartbeatInterval Number of milliseconds between WebSocket heartbeats, defaults to
+   *                               zero, which disables heartbeats.
+   * @param opts.maxMissedHeartbeats Number of heartbeats in a row that must go unanswered before
+   *                                 the WebSocket connection is reestablished.
+   * @param opts.auth Headers and/or bearer token to send to the WebSocket endpoint.
+   * @param opts.httpAuth Headers and/or bearer token to send to the HTTP endpoint, defaults to
+   *                      `opts.auth`.
+   * @param opts.rateLimit Limits the rate at which requests are sent, and the number of requests
+   *                       that can be waiting for a response at the same time. The limits are
+   *                       enforced separately for each protocol.
    */
   constructor(opts: {
     httpUrl: string
@@ -26,29 +75,157 @@ export class DualRPCClient extends WSRPCClient {
     reconnectInterval?: number
     maxReconnects?: number
     generateRequestId?: (method: string, params: object | any[]) => string
+    autoBatch?: boolean
+    maxBatchSize?: number
+    retryPolicy?: IRetryPolicy
+    heartbeatInterval?: number
+    maxMissedHeartbeats?: number
+    auth?: IRPCAuthOptions
+    httpAuth?: IRPCAuthOptions
+    rateLimit?: IRateLimitOptions
   }) {
     super(opts.wsUrl, opts)
     const {
       protocol = JSONRPCProtocol.HTTP,
       requestTimeout,
-      generateRequestId = this._getNextRequestId
+      generateRequestId = this._getNextRequestId,
+      autoBatch,
+      maxBatchSize,
+      retryPolicy,
+      auth,
+      httpAuth = auth,
+      rateLimit
     } = opts
-    this._http = new HTTPRPCClient(opts.httpUrl, { requestTimeout, generateRequestId })
+    this._http = new HTTPRPCClient(opts.httpUrl, {
+      requestTimeout,
+      generateRequestId,
+      autoBatch,
+      maxBatchSize,
+      retryPolicy,
+      auth: httpAuth,
+      rateLimit
+    })
+    this._http.on(RPCClientEvent.RequestCompleted, (...args: any[]) =>
+      this.emit(RPCClientEvent.RequestCompleted, ...args)
+    )
     this._protocol = protocol
   }
 
   /**
-   * Sends a JSON-RPC message.
+   * Sends a JSON-RPC message via the primary protocol, falls back to the other protocol if the
+   * primary one is unavailable.
    * @param method RPC method name.
    * @param params Parameter object or array.
+   * @param opts Options object.
    * @returns A promise that will be resolved with the value of the result field (if any) in the
    *          JSON-RPC response message.
    */
-  sendAsync<T>(method: string, params: object | any[]): Promise<T> {
-    if (this._protocol === JSONRPCProtocol.HTTP) {
-      return this._http.sendAsync<T>(method, params)
+  async sendAsync<T>(method: string, params: object | any[], opts?: IRequestOptions): Promise<T> {
+    const { result } = await this.sendWithProtocolAsync<T>(method, params, opts)
+    return result
+  }
+
+  /**
+   * Sends a JSON-RPC message, same as sendAsync(), but also returns the protocol the message was
+   * sent via.
+   * @param method RPC method name.
+   * @param params Parameter object or array.
+   * @param opts Options object.
+   * @returns A promise that will be resolved with the value of the result field (if any) in the
+   *          JSON-RPC response message, and the protocol the message was sent via.
+   */
+  sendWithProtocolAsync<T>(
+    method: string,
+    params: object | any[],
+    opts?: IRequestOptions
+  ): Promise<IDualRPCResult<T>> {
+    if (isEvmSubscriptionMethod(method)) {
+      return this._sendViaWSAsync(() => super.sendAsync<T>(method, params, opts))
+    }
+    return this._sendWithFallbackAsync(
+      isBroadcastMethod(method),
+      protocol =>
+        protocol === JSONRPCProtocol.HTTP
+          ? this._http.sendAsync<T>(method, params, opts)
+          : super.sendAsync<T>(method, params, opts)
+    )
+  }
+
+  /**
+   * Sends multiple JSON-RPC messages in a single batch via the primary protocol, falls back to the
+   * other protocol if the primary one is unavailable. Batches are only supported via HTTP, so
+   * requests sent via WebSocket are sent one by one.
+   * @param requests Requests to send.
+   * @returns A promise that will be resolved with the outcome of each request, in the same order
+   *          as the requests.
+   */
+  async sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    let response: IDualRPCResult<IJSONRPCBatchResult[]>
+    if (requests.some(req => isEvmSubscriptionMethod(req.method))) {
+      response = await this._sendViaWSAsync(() => this._sendOneByOneViaWSAsync(requests))
     } else {
-      return this.sendAsync<T>(method, params)
+      const hasBroadcast = requests.some(req => isBroadcastMethod(req.method))
+      response = await this._sendWithFallbackAsync(
+        hasBroadcast,
+        protocol =>
+          protocol === JSONRPCProtocol.HTTP
+            ? this._http.sendBatchAsync(requests)
+            : this._sendOneByOneViaWSAsync(requests)
+      )
+    }
+    return response.result
+  }
+
+  /** Returns a snapshot of the request statistics for each RPC method, for both protocols. */
+  getStats(): IRPCStats {
+    return mergeRPCStats([super.getStats(), this._http.getStats()])
+  }
+
+  /** Discards the request statistics recorded so far, for both protocols. */
+  resetStats() {
+    super.resetStats()
+    this._http.resetStats()
+  }
+
+  private _sendOneByOneViaWSAsync(
+    requests: IJSONRPCBatchRequest[]
+  ): Promise<IJSONRPCBatchResult[]> {
+    return sendOneByOneAsync((method, params) => super.sendAsync(method, params), requests)
+  }
+
+  private async _sendViaWSAsync<R>(send: () => Promise<R>): Promise<IDualRPCResult<R>> {
+    return { result: await send(), protocol: JSONRPCProtocol.WS }
+  }
+
+  private async _sendWithFallbackAsync<R>(
+    isBroadcast: boolean,
+    send: (protocol: JSONRPCProtocol) => Promise<R>
+  ): Promise<IDualRPCResult<R>> {
+    let protocol = this._protocol
+    // No point waiting for the socket to reconnect when the request can go out via HTTP.
+    if (protocol === JSONRPCProtocol.WS && !this.isConnected) {
+      protocol = JSONRPCProtocol.HTTP
+    }
+    try {
+      return { result: await send(protocol), protocol }
+    } catch (err) {
+      // A broadcast can only be resent if it's certain the original request didn't go out,
+      // otherwise the tx may end up being sent twice.
+      const canFallback = isBroadcast ? err && err.code === 'ECONNREFUSED' : isTransientError(err)
+      if (!canFallback) {
+        throw err
+      }
+      const fallback =
+        protocol === JSONRPCProtocol.HTTP ? JSONRPCProtocol.WS : JSONRPCProtocol.HTTP
+      if (fallback === JSONRPCProtocol.WS && !this.isConnected) {
+        throw err
+      }
+      log(
+        `Request via ${JSONRPCProtocol[protocol]} failed, falling back to ${
+          JSONRPCProtocol[fallback]
+        }`
+      )
+      return { result: await send(fallback), protocol: fallback }
     }
   }
 }
@@ -0,0 +1,141 @@
+import debug from 'debug'
+
+import { EventData, EventDataList } from '../proto/loom_pb'
+import { B64ToUint8Array, Uint8ArrayToB64, bufferToProtobufBytes } from '../crypto-utils'
+import { IEventData, IJSONRPCEvent } from './ws-rpc-client'
+
+const log = debug('event-poller')
+
+/**
+ * Fetches new DAppChain events at regular intervals, for transports that can't receive events
+ * pushed from the node.
+ *
+ * Each poll fetches the events emitted in the blocks committed since the previous poll. Blocks are
+ * only marked as seen once their events have been delivered, so if a poll fails the next one picks
+ * up where the last successful one left off.
+ */
+export class EventPoller {
+  private _timer: any = null
+  // incremented on every start/stop so polls from a previous run can tell they're stale
+  private _run: number = 0
+  private _isRunning: boolean = false
+  private _lastHeight?: number
+
+  /** Height of the last block whose events have been delivered. */
+  get lastHeight(): number | undefined {
+    return this._lastHeight
+  }
+
+  get isRunning(): boolean {
+    return this._isRunning
+  }
+
+  /**
+   * @param _sendAsync Sends a request to the node.
+   * @param method RPC method to fetch events with, it's sent the `fromBlock` & `toBlock` heights
+   *               (both inclusive) of the range of blocks to fetch the events of, and must return a
+   *               base64 encoded EventDataList.
+   * @param _onEvent Invoked for each event, events are delivered in the order they were emitted.
+   * @param _onError Invoked when a poll fails.
+   * @param interval Number of milliseconds to wait between polls.
+   * @param maxBlockRange Maximum number of blocks to fetch events for in a single request.
+   */
+  constructor(
+    private _sendAsync: <T>(method: string, params: object) => Promise<T>,
+    public method: string,
+    private _onEvent: (event: IJSONRPCEvent) => void,
+    private _onError: (err: any) => void,
+    public interval: number,
+    public maxBlockRange: number = 20
+  ) {}
+
+  /**
+   * Starts polling, only events emitted in blocks committed after polling started are delivered.
+   */
+  start() {
+    if (this._isRunning) {
+      return
+    }
+    this._isRunning = true
+    this._lastHeight = undefined
+    this._startPoll(++this._run)
+  }
+
+  stop() {
+    this._isRunning = false
+    this._run++
+    clearTimeout(this._timer)
+    this._timer = null
+  }
+
+  private _startPoll(run: number) {
+    // _poll() handles its own errors, so this should never actually catch anything
+    this._poll(run).catch(err => log(`Unexpected event poll failure: ${err}`))
+  }
+
+  private async _poll(run: number) {
+    let error: any = null
+    try {
+      await this._fetchNewEventsAsync(run)
+    } catch (err) {
+      error = err
+    }
+    if (run !== this._run) {
+      return
+    }
+    // schedule the next poll first, so polling continues even if the error handler throws
+    this._timer = setTimeout(() => this._startPoll(run), this.interval)
+    if (error) {
+      log(`Failed to poll for events after block ${this._lastHeight}: ${error}`)
+      try {
+        this._onError(error)
+      } catch (err) {
+        log(`Event poll error handler failed: ${err}`)
+      }
+    }
+  }
+
+  private async _fetchNewEventsAsync(run: number) {
+    const height = Number(await this._sendAsync<number | string>('getblockheight', {}))
+    if (run !== this._run) {
+      return
+    }
+    if (this._lastHeight === undefined) {
+      this._lastHeight = height
+      return
+    }
+    while (this._lastHeight < height) {
+      const fromBlock: number = this._lastHeight + 1
+      const toBlock = Math.min(height, this._lastHeight + this.maxBlockRange)
+      const result = await this._sendAsync<string>(this.method, { fromBlock, toBlock })
+      if (run !== this._run) {
+        return
+      }
+      if (result) {
+        const eventList = EventDataList.deserializeBinary(
+          bufferToProtobufBytes(B64ToUint8Array(result))
+        )
+        eventList
+          .getEventsList()
+          .forEach(eventData => this._onEvent({ id: '0', result: eventDataToJSON(eventData) }))
+      }
+      this._lastHeight = toBlock
+    }
+  }
+}
+
+/**
+ * Converts an event to the form it's sent in by the node when it's pushed to a subscriber.
+ */
+function eventDataToJSON(eventData: EventData): IEventData {
+  const caller = eventData.getCaller()!
+  const address = eventData.getAddress()!
+  return {
+    caller: { chain_id: caller.getChainId(), local: Uint8ArrayToB64(caller.getLocal_asU8()) },
+    address: { chain_id: address.getChainId(), local: Uint8ArrayToB64(address.getLocal_asU8()) },
+    block_height: eventData.getBlockHeight().toString(),
+    encoded_body: Uint8ArrayToB64(eventData.getEncodedBody_asU8()),
+    tx_hash: Uint8ArrayToB64(eventData.getTxHash_asU8()),
+    topics: eventData.getTopicsList()
+  }
+}
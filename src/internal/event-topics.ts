@@ -0,0 +1,59 @@
+/**
+ * Keeps track of the event topics the subscribers of an RPC client are interested in.
+ *
+ * Topics are reference counted. A subscriber that registers an empty list of topics is interested
+ * in all events, and while any such subscribers are registered the topics registered by other
+ * subscribers are ignored, otherwise the subscribers that wanted everything would miss out.
+ */
+export class EventTopics {
+  /** Number of subscribers interested in each topic. */
+  private _topics = new Map<string, number>()
+  /** Number of subscribers interested in all events. */
+  private _allTopicsSubscribers: number = 0
+
+  /**
+   * Topics events should be filtered by, empty if no filtering should be done (either because no
+   * topics have been registered, or because someone is interested in all events).
+   */
+  get topics(): string[] {
+    const topics: string[] = []
+    if (this._allTopicsSubscribers === 0) {
+      this._topics.forEach((count, topic) => topics.push(topic))
+    }
+    return topics
+  }
+
+  /**
+   * Registers a subscriber's interest in the given topics.
+   * @param topics Topics to register, or an empty array to register interest in all events.
+   */
+  add(topics: string[]) {
+    if (topics.length === 0) {
+      this._allTopicsSubscribers++
+    }
+    topics.forEach(topic => this._topics.set(topic, (this._topics.get(topic) || 0) + 1))
+  }
+
+  /**
+   * Releases topics previously registered via add().
+   */
+  remove(topics: string[]) {
+    if (topics.length === 0 && this._allTopicsSubscribers > 0) {
+      this._allTopicsSubscribers--
+    }
+    topics.forEach(topic => {
+      const count = this._topics.get(topic)
+      if (count !== undefined && count > 1) {
+        this._topics.set(topic, count - 1)
+      } else {
+        this._topics.delete(topic)
+      }
+    })
+  }
+
+  /** Checks if an event with the given topics should be delivered to the subscribers. */
+  matches(eventTopics: string[]): boolean {
+    const topics = this.topics
+    return topics.length === 0 || eventTopics.some(topic => topics.indexOf(topic) !== -1)
+  }
+}
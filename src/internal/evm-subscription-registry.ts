@@ -0,0 +1,142 @@
+import debug from 'debug'
+
+const log = debug('evm-subscription-registry')
+
+/**
+ * Methods that create a subscription or filter on the node, the node will forget about these when
+ * the connection drops (or the node restarts) so they have to be recreated.
+ */
+const CREATE_METHODS = [
+  'evmsubscribe',
+  'newevmfilter',
+  'newblockevmfilter',
+  'newpendingtransactionevmfilter'
+]
+/** Methods that remove a subscription or filter created by one of the CREATE_METHODS. */
+const REMOVE_METHODS = ['evmunsubscribe', 'uninstallevmfilter']
+/** Methods that take the id of a subscription or filter as a parameter. */
+const ID_METHODS = ['getevmfilterchanges', ...REMOVE_METHODS]
+
+/**
+ * Checks if the given RPC method creates, polls, or removes an EVM subscription or filter, the
+ * node only knows about a subscription on the connection it was created on, so these requests
+ * must all be sent to the same node.
+ */
+export function isEvmSubscriptionMethod(method: string): boolean {
+  return CREATE_METHODS.indexOf(method) !== -1 || ID_METHODS.indexOf(method) !== -1
+}
+
+interface IEvmSubscription {
+  /** RPC method the subscription was created with. */
+  method: string
+  /** RPC parameters the subscription was created with. */
+  params: any
+  /** Id the node currently knows the subscription by. */
+  serverId: string
+}
+
+/**
+ * Keeps track of the EVM subscriptions & filters created via an RPC client, so they can be
+ * recreated after the client reconnects.
+ *
+ * Callers keep using the id the subscription was originally created with, the registry maps that
+ * id to the one assigned by the node when the subscription was last recreated.
+ */
+export class EvmSubscriptionRegistry {
+  // Subscriptions keyed by the id the caller knows them by.
+  private _subscriptions = new Map<string, IEvmSubscription>()
+
+  /** Ids of the currently active subscriptions & filters. */
+  get ids(): string[] {
+    const ids: string[] = []
+    this._subscriptions.forEach((sub, id) => ids.push(id))
+    return ids
+  }
+
+  /**
+   * Replaces the subscription id (if any) in the given request parameters with the one the node
+   * currently knows the subscription by.
+   * @returns Parameters to send to the node.
+   */
+  toServerParams(method: string, params: any): any {
+    if (ID_METHODS.indexOf(method) === -1 || !params) {
+      return params
+    }
+    const sub = this._subscriptions.get(params.id)
+    if (!sub || sub.serverId === params.id) {
+      return params
+    }
+    return { ...params, id: sub.serverId }
+  }
+
+  /**
+   * Maps the subscription id the node sent an event message with to the id the caller knows the
+   * subscription by.
+   */
+  toCallerId(serverId: string): string {
+    let callerId = serverId
+    this._subscriptions.forEach((sub, id) => {
+      if (sub.serverId === serverId) {
+        callerId = id
+      }
+    })
+    return callerId
+  }
+
+  /**
+   * Updates the registry after a successful response to a request.
+   * @param method RPC method name.
+   * @param params RPC parameters sent by the caller (not the ones sent to the node).
+   * @param result Result returned by the node.
+   */
+  onResponse(method: string, params: any, result: any) {
+    if (CREATE_METHODS.indexOf(method) !== -1) {
+      if (result) {
+        const id = result.toString()
+        this._subscriptions.set(id, { method, params, serverId: id })
+      }
+    } else if (REMOVE_METHODS.indexOf(method) !== -1 && params) {
+      this._subscriptions.delete(params.id)
+    }
+  }
+
+  /**
+   * Recreates all the subscriptions & filters in the registry, this should be done after
+   * reconnecting to a node.
+   *
+   * Subscriptions that can't be recreated are removed from the registry, the returned promise is
+   * never rejected.
+   *
+   * @param sendAsync Sends a request to the node.
+   * @param onLost Invoked with the caller id of each subscription that couldn't be recreated.
+   */
+  async restoreAsync(
+    sendAsync: (method: string, params: any) => Promise<any>,
+    onLost: (id: string, err: Error) => void
+  ): Promise<void> {
+    const subscriptions: Array<[string, IEvmSubscription]> = []
+    this._subscriptions.forEach((sub, id) => subscriptions.push([id, sub]))
+    for (let i = 0; i < subscriptions.length; i++) {
+      const [id, sub] = subscriptions[i]
+      try {
+        const result = await sendAsync(sub.method, sub.params)
+        if (!result) {
+          throw new Error(`Empty response to ${sub.method}`)
+        }
+        sub.serverId = result.toString()
+        log(`Restored subscription ${id}, now known by the node as ${sub.serverId}`)
+      } catch (err) {
+        // the caller may have removed the subscription in the meantime
+        if (this._subscriptions.get(id) === sub) {
+          this._subscriptions.delete(id)
+          try {
+            onLost(id, err)
+          } catch (onLostErr) {
+            // don't let a misbehaving callback stop the remaining subscriptions being restored
+            log(`Failed to report lost subscription ${id}: ${onLostErr}`)
+          }
+        }
+      }
+    }
+  }
+}
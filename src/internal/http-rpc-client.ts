@@ -1,23 +1,71 @@
-import axios from 'axios'
+import axios, { AxiosResponse, CancelToken } from 'axios'
 import EventEmitter from 'events'
 import debug from 'debug'
 
-import { IJSONRPCRequest, IJSONRPCResponse, IJSONRPCClient } from './json-rpc-client'
+import {
+  IJSONRPCRequest,
+  IJSONRPCResponse,
+  IJSONRPCClient,
+  IJSONRPCBatchRequest,
+  IJSONRPCBatchResult,
+  IRequestOptions,
+  ConnectionState,
+  RPCClientEvent
+} from './json-rpc-client'
+import { RequestBatcher, isBatchable } from './request-batcher'
+import {
+  RateLimiter,
+  IRateLimitOptions,
+  RequestPriority,
+  sendWithRateLimitAsync
+} from './rate-limiter'
+import { EventPoller } from './event-poller'
+import { EventTopics } from './event-topics'
+import { IJSONRPCEvent } from './ws-rpc-client'
+import { IRetryPolicy, sendWithRetryAsync } from './retry-policy'
+import { RPCMetrics, IRPCStats } from './rpc-metrics'
+import { RPCAuth, IRPCAuthOptions } from './rpc-auth'
+import { RPCError, TimeoutError, CancelledError } from '../errors'
+import { runCancellableAsync } from '../cancellation'
 
 const log = debug('http-rpc-client')
 
 /**
  * Sends JSON-RPC messages via HTTP.
- * Doesn't support listening to DAppChain events at the moment.
+ * DAppChain events can't be pushed to the client, but they can be fetched by polling the node if
+ * `eventPollInterval` & `eventPollMethod` are set.
  */
 export class HTTPRPCClient extends EventEmitter implements IJSONRPCClient {
   private _rpcId: number = 0
   private _getNextRequestId = () => (++this._rpcId).toString()
+  private _batcher?: RequestBatcher
+  private _metrics = new RPCMetrics()
+  private _rateLimiter?: RateLimiter
+  private _auth: RPCAuth
+  private _eventPoller?: EventPoller
+  private _topics = new EventTopics()
 
   requestTimeout: number
 
+  /**
+   * Determines which failed requests are resent, if not set failed requests are never resent.
+   */
+  retryPolicy?: IRetryPolicy
+
   get isSubscribed(): boolean {
-    return false
+    return !!this._eventPoller && this._eventPoller.isRunning
+  }
+
+  /**
+   * Event topics the client is interested in, if empty events for all topics will be delivered.
+   */
+  get topics(): string[] {
+    return this._topics.topics
+  }
+
+  get connectionState(): ConnectionState {
+    // no persistent connection, so it's always ready to go
+    return ConnectionState.Open
   }
 
   /**
@@ -25,25 +73,96 @@ export class HTTPRPCClient extends EventEmitter implements IJSONRPCClient {
    * @param url
    * @param opts Options object
    * @param opts.requestTimeout Number of milliseconds to wait for a network operation to complete.
+   * @param opts.autoBatch If `true` requests made within the same tick will be sent to the server
+   *                       in a single JSON-RPC batch, defaults to `false`.
+   * @param opts.maxBatchSize Maximum number of requests to send in a single batch when
+   *                          `autoBatch` is enabled.
+   * @param opts.retryPolicy If set requests that fail because of network errors, timeouts, or
+   *                         server errors will be resent according to this policy.
+   * @param opts.auth Headers and/or bearer token to send with each request.
+   * @param opts.eventPollInterval Number of milliseconds between polls for new DAppChain events
+   *                                while anyone is listening for them, defaults to zero, which
+   *                                disables events. Requires `eventPollMethod` to be set.
+   * @param opts.eventPollMethod RPC method to poll for events with, see EventPoller.
+   * @param opts.rateLimit Limits the rate at which requests are sent, and the number of requests
+   *                        that can be waiting for a response at the same time.
    */
   constructor(
     public url: string,
     opts: {
       requestTimeout?: number
       generateRequestId?: (method: string, params: object | any[]) => string
+      autoBatch?: boolean
+      maxBatchSize?: number
+      retryPolicy?: IRetryPolicy
+      auth?: IRPCAuthOptions
+      rateLimit?: IRateLimitOptions
+      eventPollInterval?: number
+      eventPollMethod?: string
     } = {}
   ) {
     super()
     const {
       requestTimeout = 15000, // 15s
-      generateRequestId = this._getNextRequestId
+      generateRequestId = this._getNextRequestId,
+      autoBatch = false,
+      maxBatchSize,
+      retryPolicy,
+      auth,
+      rateLimit,
+      eventPollInterval = 0,
+      eventPollMethod
     } = opts
 
     this.requestTimeout = requestTimeout
+    this.retryPolicy = retryPolicy
+    this._auth = new RPCAuth(auth)
+    if (rateLimit) {
+      this._rateLimiter = new RateLimiter(rateLimit)
+    }
+    if (autoBatch) {
+      this._batcher = new RequestBatcher(
+        (method, params) => this._sendAsync(method, params),
+        requests => this._sendBatchAsync(requests),
+        maxBatchSize
+      )
+    }
+
+    if (eventPollInterval > 0) {
+      if (!eventPollMethod) {
+        throw new Error('[HTTPRPCClient] eventPollMethod must be set to poll for events')
+      }
+      const poller = new EventPoller(
+        // polling happens in the background, so it shouldn't hold up other requests
+        (method, params) => this.sendAsync(method, params, { priority: RequestPriority.Low }),
+        eventPollMethod,
+        this._onEvent,
+        // not emitted as an error, since an unhandled error event would bring down the process
+        err => this.emit(RPCClientEvent.EventPollError, this.url, err),
+        eventPollInterval
+      )
+      this._eventPoller = poller
+      this.on('newListener', (event: string) => {
+        if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+          log(`Polling ${this.url} for events`)
+          poller.start()
+          this.emit(RPCClientEvent.Subscribed, this.url, true)
+        }
+      })
+      this.on('removeListener', (event: string) => {
+        if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+          poller.stop()
+          this.emit(RPCClientEvent.Subscribed, this.url, false)
+        }
+      })
+    }
   }
 
   disconnect() {
-    // no persistent connection, so do nothing
+    // no persistent connection, just stop polling for events
+    if (this._eventPoller) {
+      this._eventPoller.stop()
+    }
   }
 
   ensureConnectionAsync(): Promise<void> {
@@ -51,14 +170,101 @@ export class HTTPRPCClient extends EventEmitter implements IJSONRPCClient {
     return Promise.resolve()
   }
 
+  reconnect() {
+    // no persistent connection, so do nothing
+  }
+
+  addTopics(topics: string[]) {
+    this._topics.add(topics)
+  }
+
+  removeTopics(topics: string[]) {
+    this._topics.remove(topics)
+  }
+
   /**
    * Sends a JSON-RPC message.
    * @param method RPC method name.
    * @param params Parameter object or array.
+   * @param opts Options object, requests with a timeout or cancellation token are never batched.
    * @returns A promise that will be resolved with the value of the result field (if any) in the
    *          JSON-RPC response message.
    */
-  async sendAsync<T>(method: string, params: object | any[]): Promise<T> {
+  sendAsync<T>(method: string, params: object | any[], opts?: IRequestOptions): Promise<T> {
+    return this._metrics.measureAsync(
+      method,
+      () =>
+        sendWithRetryAsync(this.retryPolicy, method, () =>
+          sendWithRateLimitAsync(this._rateLimiter, method, opts, () => {
+            if (this._batcher && isBatchable(opts)) {
+              return this._batcher.sendAsync<T>(method, params)
+            }
+            return this._sendAsync<T>(method, params, opts)
+          })
+        ),
+      this._emitRequestCompleted
+    )
+  }
+
+  /**
+   * Sends multiple JSON-RPC messages in a single HTTP request.
+   * @param requests Requests to send.
+   * @returns A promise that will be resolved with the outcome of each request, in the same order
+   *          as the requests.
+   */
+  sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    return this._metrics.measureBatchAsync(
+      requests,
+      // the whole batch counts as a single request as far as the rate limiter is concerned
+      () =>
+        sendWithRateLimitAsync(this._rateLimiter, 'batch', undefined, () =>
+          this._sendBatchAsync(requests)
+        ),
+      this._emitRequestCompleted
+    )
+  }
+
+  /** Returns a snapshot of the request statistics for each RPC method. */
+  getStats(): IRPCStats {
+    return this._metrics.getStats()
+  }
+
+  /** Discards the request statistics recorded so far. */
+  resetStats() {
+    this._metrics.reset()
+  }
+
+  private async _sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    log(`Sending batch of ${requests.length} RPC msgs to ${this.url}`)
+    const reqs: IJSONRPCRequest[] = requests.map(({ method, params }) => ({
+      jsonrpc: '2.0' as '2.0',
+      method,
+      params,
+      id: this._getNextRequestId()
+    }))
+    const resps = await this._postAsync<IJSONRPCResponse<any>[]>(reqs, 'batch')
+    const respsById = new Map<string, IJSONRPCResponse<any>>()
+    if (Array.isArray(resps)) {
+      resps.forEach(resp => respsById.set(String(resp.id), resp))
+    }
+    return reqs.map(req => {
+      const resp = respsById.get(req.id!)
+      if (!resp) {
+        return { error: new Error(`[HTTPRPCClient] No response to ${req.method} in batch`) }
+      }
+      if (resp.error) {
+        const { code, message, data } = resp.error
+        return { error: new RPCError(code, message, data) }
+      }
+      return { result: resp.result }
+    })
+  }
+
+  private async _sendAsync<T>(
+    method: string,
+    params: object | any[],
+    opts: IRequestOptions = {}
+  ): Promise<T> {
     log(`Sending RPC msg to ${this.url}, method ${method}`)
     const req: IJSONRPCRequest = {
       jsonrpc: '2.0',
@@ -66,13 +272,81 @@ export class HTTPRPCClient extends EventEmitter implements IJSONRPCClient {
       params,
       id: this._getNextRequestId()
     }
-    const resp = await axios.post<IJSONRPCResponse<T>>(this.url, req, {
-      timeout: this.requestTimeout
-    })
-    if (resp.data.error) {
-      const { code, message, data } = resp.data.error
-      throw new Error(`JSON-RPC Error ${code} (${message}): ${data}`)
+    const resp = await this._postAsync<IJSONRPCResponse<T>>(req, method, opts)
+    if (resp.error) {
+      const { code, message, data } = resp.error
+      throw new RPCError(code, message, data)
+    }
+    return resp.result
+  }
+
+  private _onEvent = (event: IJSONRPCEvent): void => {
+    const { result } = event
+    // the node filters events by topic for WebSocket subscribers, polled events have to be
+    // filtered here
+    if (result && !this._topics.matches(result.topics)) {
+      return
+    }
+    this.emit(RPCClientEvent.Message, this.url, event)
+  }
+
+  private _emitRequestCompleted = (method: string, latency: number, err?: any): void => {
+    this.emit(RPCClientEvent.RequestCompleted, this.url, method, latency, err)
+  }
+
+  private _postAsync<R>(body: any, method: string, opts: IRequestOptions = {}): Promise<R> {
+    const { timeout = this.requestTimeout, cancellationToken } = opts
+    const cancelSource = axios.CancelToken.source()
+    return runCancellableAsync(
+      cancellationToken,
+      async () => {
+        const token = await this._auth.getTokenAsync()
+        try {
+          return await this._postWithTokenAsync<R>(
+            body,
+            method,
+            timeout,
+            cancelSource.token,
+            token
+          )
+        } catch (err) {
+          if (!this._auth.hasTokenProvider || !err.response || err.response.status !== 401) {
+            throw err
+          }
+          // the token has probably expired, so get a new one and try again (just once)
+          log(`Auth token rejected by ${this.url}, requesting a new one`)
+          this._auth.invalidateToken(token)
+          const newToken = await this._auth.getTokenAsync()
+          return this._postWithTokenAsync<R>(body, method, timeout, cancelSource.token, newToken)
+        }
+      },
+      () => cancelSource.cancel()
+    )
+  }
+
+  private async _postWithTokenAsync<R>(
+    body: any,
+    method: string,
+    timeout: number,
+    cancelToken: CancelToken,
+    authToken?: string
+  ): Promise<R> {
+    let resp: AxiosResponse<R>
+    try {
+      resp = await axios.post<R>(this.url, body, {
+        timeout,
+        cancelToken,
+        headers: this._auth.getHeaders(authToken)
+      })
+    } catch (err) {
+      if (axios.isCancel(err)) {
+        throw new CancelledError()
+      }
+      if (err.code === 'ECONNABORTED') {
+        throw new TimeoutError(`[HTTPRPCClient] Timeout while waiting for response to ${method}`)
+      }
+      throw err
     }
-    return resp.data.result
+    return resp.data
   }
 }
@@ -1,5 +1,9 @@
 import EventEmitter from 'events'
 
+import { CancellationToken } from '../cancellation'
+import { IRPCStats } from './rpc-metrics'
+import { RequestPriority } from './rate-limiter'
+
 export interface IJSONRPCError {
   code: number
   message: string
@@ -27,11 +31,57 @@ export interface IJSONRPCErrorResponse {
 
 export interface IJSONRPCResponse<T> extends IJSONRPCResultResponse<T>, IJSONRPCErrorResponse {}
 
+/** Options that can be specified for individual requests. */
+export interface IRequestOptions {
+  /**
+   * Number of milliseconds to wait for a response, overrides the `requestTimeout` of the client.
+   */
+  timeout?: number
+  /** Token that can be used to abandon the request before it completes. */
+  cancellationToken?: CancellationToken
+  /**
+   * Determines the order in which requests held back by the client's rate limiter are sent,
+   * defaults to `RequestPriority.Normal`.
+   */
+  priority?: RequestPriority
+}
+
+/** Request that's sent as part of a JSON-RPC batch. */
+export interface IJSONRPCBatchRequest {
+  method: string
+  params: object | any[]
+}
+
+/**
+ * Outcome of a request that was sent as part of a JSON-RPC batch, either `result` or `error` will
+ * be set.
+ */
+export interface IJSONRPCBatchResult<T = any> {
+  /** Value of the result field (if any) in the JSON-RPC response message. */
+  result?: T
+  /** Error the request failed with. */
+  error?: Error
+}
+
 export enum JSONRPCProtocol {
   HTTP = 0,
   WS = 1
 }
 
+/** State of the connection between an RPC client and the server. */
+export enum ConnectionState {
+  /** The initial connection is being established. */
+  Connecting = 'connecting',
+  /** The connection is established. */
+  Open = 'open',
+  /** The connection dropped out and is being reestablished. */
+  Reconnecting = 'reconnecting',
+  /** The connection was closed by the client, and won't be reestablished. */
+  Closed = 'closed',
+  /** The connection couldn't be reestablished within the maximum number of attempts. */
+  Failed = 'failed'
+}
+
 export enum RPCClientEvent {
   /** Emitted when a connection is established with the server. */
   Connected = 'connected',
@@ -46,7 +96,37 @@ export enum RPCClientEvent {
    * Listener will receive a single boolean value, `true` indicates that the event subscription is
    * active, `false` indicates that it's inactive.
    */
-  Subscribed = 'subscribed'
+  Subscribed = 'subscribed',
+  /**
+   * Emitted by pooled clients when an endpoint becomes unhealthy, or recovers.
+   * Listener will receive the URL of the endpoint, and a boolean value, `true` indicates that the
+   * endpoint is healthy, `false` indicates that it's unhealthy.
+   */
+  EndpointHealth = 'endpointHealth',
+  /**
+   * Emitted when an EVM subscription or filter couldn't be recreated after reconnecting.
+   * Listener will receive the URL of the server, the id of the subscription, and the error.
+   */
+  EvmSubscriptionLost = 'evmSubscriptionLost',
+  /**
+   * Emitted when the state of the connection to the server changes.
+   * Listener will receive the URL of the server, the new ConnectionState, the number of
+   * reconnection attempts made since the connection was last open, and the number of milliseconds
+   * until the next attempt (only when the new state is `ConnectionState.Reconnecting`).
+   */
+  ConnectionStateChanged = 'connectionStateChanged',
+  /**
+   * Emitted after each request completes, whether it succeeded or failed (but not if it was
+   * cancelled). Listener will receive the URL of the server, the RPC method name, the number of
+   * milliseconds it took for the request to complete, and the error the request failed with.
+   */
+  RequestCompleted = 'requestCompleted',
+  /**
+   * Emitted by clients that poll for DAppChain events when a poll fails, the next poll will pick
+   * up where the last successful one left off.
+   * Listener will receive the URL of the server, and the error the poll failed with.
+   */
+  EventPollError = 'eventPollError'
 }
 
 /**
@@ -56,8 +136,87 @@ export interface IJSONRPCClient extends EventEmitter {
   url: string
   requestTimeout: number
   isSubscribed: boolean
+  /**
+   * Optional, clients that don't keep track of the connection state are assumed to be connected,
+   * see getConnectionState().
+   */
+  connectionState?: ConnectionState
 
   disconnect(): void
+  /**
+   * Closes the current connection to the server (if any), and establishes a new one.
+   * Optional, clients that don't maintain a persistent connection don't need to implement it.
+   */
+  reconnect?(): void
   ensureConnectionAsync(): Promise<void>
-  sendAsync<T>(method: string, params: object | any[]): Promise<T>
+  sendAsync<T>(method: string, params: object | any[], opts?: IRequestOptions): Promise<T>
+  /**
+   * Sends multiple requests in a single JSON-RPC batch.
+   * Optional, use sendBatchWithFallbackAsync() to send a batch via any client.
+   * @returns A promise that will be resolved with the outcome of each request, in the same order
+   *          as the requests.
+   */
+  sendBatchAsync?(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]>
+  /**
+   * Narrows the event subscription down to the given topics, topics are reference counted.
+   * An empty array of topics indicates interest in all events, and overrides any other topics.
+   * Optional, clients that don't implement it receive all events.
+   */
+  addTopics?(topics: string[]): void
+  /** Releases topics previously added via addTopics(), must be implemented along with it. */
+  removeTopics?(topics: string[]): void
+  /**
+   * Returns a snapshot of the request statistics for each RPC method.
+   * Optional, clients that don't implement it have no statistics to report.
+   */
+  getStats?(): IRPCStats
+  /** Discards the request statistics recorded so far, must be implemented along with getStats(). */
+  resetStats?(): void
+}
+
+/**
+ * @returns State of the connection between the given client and the server, clients that don't
+ *          keep track of it are assumed to be connected.
+ */
+export function getConnectionState(client: IJSONRPCClient): ConnectionState {
+  return client.connectionState || ConnectionState.Open
+}
+
+/**
+ * Sends multiple requests in a single JSON-RPC batch, or one by one if the client doesn't support
+ * batches.
+ * @param client Client to send the requests with.
+ * @param requests Requests to send.
+ * @returns A promise that will be resolved with the outcome of each request, in the same order
+ *          as the requests.
+ */
+export function sendBatchWithFallbackAsync(
+  client: IJSONRPCClient,
+  requests: IJSONRPCBatchRequest[]
+): Promise<IJSONRPCBatchResult[]> {
+  if (client.sendBatchAsync) {
+    return client.sendBatchAsync(requests)
+  }
+  return sendOneByOneAsync((method, params) => client.sendAsync(method, params), requests)
+}
+
+/**
+ * Sends each of the given requests separately, for transports that don't support batches.
+ * @param sendAsync Sends a single request.
+ * @param requests Requests to send.
+ * @returns A promise that will be resolved with the outcome of each request, in the same order
+ *          as the requests.
+ */
+export function sendOneByOneAsync(
+  sendAsync: (method: string, params: object | any[]) => Promise<any>,
+  requests: IJSONRPCBatchRequest[]
+): Promise<IJSONRPCBatchResult[]> {
+  return Promise.all(
+    requests.map(({ method, params }) =>
+      sendAsync(method, params).then<IJSONRPCBatchResult, IJSONRPCBatchResult>(
+        result => ({ result }),
+        error => ({ error })
+      )
+    )
+  )
 }
@@ -0,0 +1,378 @@
+import EventEmitter from 'events'
+import debug from 'debug'
+
+import {
+  IJSONRPCClient,
+  IJSONRPCBatchRequest,
+  IJSONRPCBatchResult,
+  IRequestOptions,
+  RPCClientEvent,
+  ConnectionState,
+  getConnectionState,
+  sendBatchWithFallbackAsync
+} from './json-rpc-client'
+import { RPCError, CancelledError } from '../errors'
+import { IRPCStats, mergeRPCStats } from './rpc-metrics'
+import { isEvmSubscriptionMethod } from './evm-subscription-registry'
+import { isBroadcastMethod } from './retry-policy'
+
+const log = debug('pooled-rpc-client')
+
+/** Determines how a PooledRPCClient picks the endpoint to send a request to. */
+export enum PoolRoutingStrategy {
+  /** Cycle through the healthy endpoints. */
+  RoundRobin = 'roundRobin',
+  /** Pick the healthy endpoint that's been responding the fastest. */
+  LowestLatency = 'lowestLatency'
+}
+
+interface IEndpoint {
+  client: IJSONRPCClient
+  /** Number of consecutive failed requests. */
+  failures: number
+  /** Time (in ms since the epoch) when an unhealthy endpoint can be tried again. */
+  unhealthyUntil: number
+  /** Smoothed response time in milliseconds, Infinity if the endpoint hasn't responded yet. */
+  latency: number
+  /** Set while the first request to an endpoint that hasn't responded yet is in flight. */
+  isProbing: boolean
+}
+
+/** Weight of the latest sample in the smoothed response time of an endpoint. */
+const LATENCY_SMOOTHING = 0.3
+
+/**
+ * Sends JSON-RPC messages to one of several endpoints, and moves on to the next endpoint when
+ * one stops responding.
+ *
+ * An endpoint is considered unhealthy once a number of requests in a row have failed because of
+ * network errors or timeouts, unhealthy endpoints are skipped until their cool-down period ends.
+ * A request that fails in this way is resent to another endpoint, unless it's a broadcast_tx_*
+ * request, since it's not possible to tell whether the tx reached the DAppChain.
+ *
+ * Events are received from the first endpoint only, so EVM subscriptions & filters are always
+ * created, polled, and removed via the first endpoint too.
+ */
+export class PooledRPCClient extends EventEmitter implements IJSONRPCClient {
+  private _endpoints: IEndpoint[]
+  private _nextIndex: number = 0
+
+  strategy: PoolRoutingStrategy
+  /** Number of failed requests in a row after which an endpoint is considered unhealthy. */
+  maxFailures: number
+  /** Number of milliseconds to skip an unhealthy endpoint for. */
+  coolDown: number
+
+  get url(): string {
+    return this._endpoints[0].client.url
+  }
+
+  get requestTimeout(): number {
+    return this._endpoints[0].client.requestTimeout
+  }
+
+  set requestTimeout(timeout: number) {
+    this._endpoints.forEach(endpoint => (endpoint.client.requestTimeout = timeout))
+  }
+
+  get isSubscribed(): boolean {
+    return this._endpoints[0].client.isSubscribed
+  }
+
+  /** State of the connection to the first endpoint, which events are received from. */
+  get connectionState(): ConnectionState {
+    return getConnectionState(this._endpoints[0].client)
+  }
+
+  /** URLs of the endpoints that are currently considered healthy. */
+  get healthyUrls(): string[] {
+    const now = Date.now()
+    return this._endpoints
+      .filter(endpoint => endpoint.unhealthyUntil <= now)
+      .map(endpoint => endpoint.client.url)
+  }
+
+  /**
+   * @param clients Clients to use to communicate with each endpoint.
+   * @param opts Options object.
+   * @param opts.strategy Determines which endpoint each request is sent to, defaults to
+   *                      `PoolRoutingStrategy.RoundRobin`.
+   * @param opts.maxFailures Number of failed requests in a row after which an endpoint is
+   *                         considered unhealthy, defaults to 1.
+   * @param opts.coolDown Number of milliseconds to skip an unhealthy endpoint for, defaults to 30
+   *                      seconds.
+   */
+  constructor(
+    clients: IJSONRPCClient[],
+    opts: { strategy?: PoolRoutingStrategy; maxFailures?: number; coolDown?: number } = {}
+  ) {
+    super()
+    if (clients.length === 0) {
+      throw new Error('[PooledRPCClient] At least one endpoint is required')
+    }
+    const {
+      strategy = PoolRoutingStrategy.RoundRobin,
+      maxFailures = 1,
+      coolDown = 30000 // 30s
+    } = opts
+    this.strategy = strategy
+    this.maxFailures = maxFailures
+    this.coolDown = coolDown
+    this._endpoints = clients.map(client => ({
+      client,
+      failures: 0,
+      unhealthyUntil: 0,
+      latency: Infinity,
+      isProbing: false
+    }))
+
+    clients.forEach(client => {
+      client.on(RPCClientEvent.Error, (url: string, err: any) =>
+        this.emit(RPCClientEvent.Error, url, err)
+      )
+      client.on(RPCClientEvent.Connected, (url: string) =>
+        this.emit(RPCClientEvent.Connected, url)
+      )
+      client.on(RPCClientEvent.Disconnected, (url: string) =>
+        this.emit(RPCClientEvent.Disconnected, url)
+      )
+      client.on(RPCClientEvent.EvmSubscriptionLost, (url: string, id: string, err: Error) =>
+        this.emit(RPCClientEvent.EvmSubscriptionLost, url, id, err)
+      )
+      client.on(RPCClientEvent.EventPollError, (url: string, err: any) =>
+        this.emit(RPCClientEvent.EventPollError, url, err)
+      )
+      client.on(
+        RPCClientEvent.RequestCompleted,
+        (url: string, method: string, latency: number, err?: any) =>
+          this.emit(RPCClientEvent.RequestCompleted, url, method, latency, err)
+      )
+    })
+
+    const eventClient = clients[0]
+    eventClient.on(
+      RPCClientEvent.ConnectionStateChanged,
+      (url: string, state: ConnectionState, attempt: number, nextDelay?: number) =>
+        this.emit(RPCClientEvent.ConnectionStateChanged, url, state, attempt, nextDelay)
+    )
+    const emitMessage = (url: string, msg: any) => this.emit(RPCClientEvent.Message, url, msg)
+    const emitSubscribed = (url: string, isSubscribed: boolean) =>
+      this.emit(RPCClientEvent.Subscribed, url, isSubscribed)
+    this.on('newListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        eventClient.on(RPCClientEvent.Subscribed, emitSubscribed)
+        eventClient.on(RPCClientEvent.Message, emitMessage)
+      }
+    })
+    this.on('removeListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        eventClient.removeListener(RPCClientEvent.Message, emitMessage)
+        eventClient.removeListener(RPCClientEvent.Subscribed, emitSubscribed)
+      }
+    })
+  }
+
+  disconnect() {
+    this._endpoints.forEach(endpoint => endpoint.client.disconnect())
+  }
+
+  reconnect() {
+    this._endpoints.forEach(({ client }) => {
+      if (client.reconnect) {
+        client.reconnect()
+      }
+    })
+  }
+
+  /**
+   * Waits for a connection to be established to at least one of the endpoints.
+   */
+  ensureConnectionAsync(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let remaining = this._endpoints.length
+      this._endpoints.forEach(endpoint =>
+        endpoint.client.ensureConnectionAsync().then(resolve, err => {
+          if (--remaining === 0) {
+            reject(err)
+          }
+        })
+      )
+    })
+  }
+
+  addTopics(topics: string[]) {
+    const client = this._endpoints[0].client
+    if (client.addTopics) {
+      client.addTopics(topics)
+    }
+  }
+
+  removeTopics(topics: string[]) {
+    const client = this._endpoints[0].client
+    if (client.removeTopics) {
+      client.removeTopics(topics)
+    }
+  }
+
+  /**
+   * Sends a JSON-RPC message to one of the endpoints.
+   * @param method RPC method name.
+   * @param params Parameter object or array.
+   * @param opts Options object.
+   * @returns A promise that will be resolved with the value of the result field (if any) in the
+   *          JSON-RPC response message.
+   */
+  sendAsync<T>(method: string, params: object | any[], opts?: IRequestOptions): Promise<T> {
+    const send = (client: IJSONRPCClient) => client.sendAsync<T>(method, params, opts)
+    if (isEvmSubscriptionMethod(method)) {
+      return this._sendToEndpointAsync(this._endpoints[0], send)
+    }
+    return this._routeAsync(isBroadcastMethod(method), send)
+  }
+
+  /**
+   * Sends multiple JSON-RPC messages in a single batch to one of the endpoints.
+   * @param requests Requests to send.
+   * @returns A promise that will be resolved with the outcome of each request, in the same order
+   *          as the requests.
+   */
+  sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    const send = (client: IJSONRPCClient) => sendBatchWithFallbackAsync(client, requests)
+    if (requests.some(req => isEvmSubscriptionMethod(req.method))) {
+      return this._sendToEndpointAsync(this._endpoints[0], send)
+    }
+    const hasBroadcast = requests.some(req => isBroadcastMethod(req.method))
+    return this._routeAsync(hasBroadcast, send)
+  }
+
+  /** Returns a snapshot of the request statistics for each RPC method, across all endpoints. */
+  getStats(): IRPCStats {
+    return mergeRPCStats(
+      this._endpoints.map(({ client }) => (client.getStats ? client.getStats() : {}))
+    )
+  }
+
+  /** Discards the request statistics recorded so far, for all endpoints. */
+  resetStats() {
+    this._endpoints.forEach(({ client }) => {
+      if (client.resetStats) {
+        client.resetStats()
+      }
+    })
+  }
+
+  private async _routeAsync<R>(
+    noFailover: boolean,
+    send: (client: IJSONRPCClient) => Promise<R>
+  ): Promise<R> {
+    const tried: IEndpoint[] = []
+    while (true) {
+      const endpoint = this._selectEndpoint(tried)
+      tried.push(endpoint)
+      try {
+        return await this._sendToEndpointAsync(endpoint, send)
+      } catch (err) {
+        if (
+          err instanceof RPCError ||
+          err instanceof CancelledError ||
+          noFailover ||
+          tried.length === this._endpoints.length
+        ) {
+          throw err
+        }
+        log(`Request to ${endpoint.client.url} failed, trying another endpoint`)
+      }
+    }
+  }
+
+  /** Sends a request to the given endpoint, and updates the health of the endpoint. */
+  private async _sendToEndpointAsync<R>(
+    endpoint: IEndpoint,
+    send: (client: IJSONRPCClient) => Promise<R>
+  ): Promise<R> {
+    const start = Date.now()
+    try {
+      const result = await send(endpoint.client)
+      this._onSuccess(endpoint, Date.now() - start)
+      return result
+    } catch (err) {
+      if (err instanceof RPCError) {
+        // the endpoint is fine, it just didn't like the request
+        this._onSuccess(endpoint, Date.now() - start)
+      } else if (!(err instanceof CancelledError)) {
+        this._onFailure(endpoint, err)
+      }
+      throw err
+    } finally {
+      // if the endpoint didn't respond it'll be probed again
+      endpoint.isProbing = false
+    }
+  }
+
+  /**
+   * Picks the endpoint to send the next request to.
+   * @param exclude Endpoints that shouldn't be picked unless there's no other choice.
+   */
+  private _selectEndpoint(exclude: IEndpoint[]): IEndpoint {
+    const now = Date.now()
+    const candidates = this._endpoints.filter(endpoint => exclude.indexOf(endpoint) === -1)
+    const healthy = candidates.filter(endpoint => endpoint.unhealthyUntil <= now)
+    if (healthy.length === 0) {
+      // Everything is down, so go with the endpoint that's closest to the end of its cool-down.
+      return candidates.reduce((a, b) => (b.unhealthyUntil < a.unhealthyUntil ? b : a))
+    }
+    if (this.strategy === PoolRoutingStrategy.LowestLatency) {
+      return this._selectFastestEndpoint(healthy)
+    }
+    for (let i = 0; i < this._endpoints.length; i++) {
+      const endpoint = this._endpoints[(this._nextIndex + i) % this._endpoints.length]
+      if (healthy.indexOf(endpoint) !== -1) {
+        this._nextIndex = (this._endpoints.indexOf(endpoint) + 1) % this._endpoints.length
+        return endpoint
+      }
+    }
+    return healthy[0]
+  }
+
+  /**
+   * Picks the endpoint that's been responding the fastest. Endpoints that haven't responded yet are
+   * sent a single request first, so their latency can be compared to that of the others.
+   * @param healthy Endpoints to pick from.
+   */
+  private _selectFastestEndpoint(healthy: IEndpoint[]): IEndpoint {
+    const unprobed = healthy.filter(
+      endpoint => endpoint.latency === Infinity && !endpoint.isProbing
+    )
+    if (unprobed.length > 0) {
+      unprobed[0].isProbing = true
+      return unprobed[0]
+    }
+    // if none of the endpoints have responded yet this picks the first one
+    return healthy.reduce((a, b) => (b.latency < a.latency ? b : a))
+  }
+
+  private _onSuccess(endpoint: IEndpoint, latency: number) {
+    endpoint.latency =
+      endpoint.latency === Infinity
+        ? latency
+        : endpoint.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING
+    endpoint.failures = 0
+    if (endpoint.unhealthyUntil !== 0) {
+      endpoint.unhealthyUntil = 0
+      log(`Endpoint ${endpoint.client.url} is healthy again`)
+      this.emit(RPCClientEvent.EndpointHealth, endpoint.client.url, true)
+    }
+  }
+
+  private _onFailure(endpoint: IEndpoint, err: any) {
+    endpoint.failures++
+    if (endpoint.failures >= this.maxFailures) {
+      const wasHealthy = endpoint.unhealthyUntil === 0
+      endpoint.unhealthyUntil = Date.now() + this.coolDown
+      if (wasHealthy) {
+        log(`Endpoint ${endpoint.client.url} is unhealthy: ${err}`)
+        this.emit(RPCClientEvent.EndpointHealth, endpoint.client.url, false)
+      }
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import debug from 'debug'
+
+import { RateLimitError, CancelledError } from '../errors'
+import { CancellationToken } from '../cancellation'
+import { IRequestOptions } from './json-rpc-client'
+
+const log = debug('rate-limiter')
+
+/** Determines the order in which requests held back by a rate limiter are sent. */
+export enum RequestPriority {
+  /** Requests the user is waiting on. */
+  High = 'high',
+  Normal = 'normal',
+  /** Background work, such as polling for filter changes. */
+  Low = 'low'
+}
+
+const PRIORITY_RANKS: { [priority: string]: number } = {
+  [RequestPriority.High]: 0,
+  [RequestPriority.Normal]: 1,
+  [RequestPriority.Low]: 2
+}
+
+export interface IRateLimit {
+  /** Number of requests that can be sent per second on average. */
+  requestsPerSecond?: number
+  /**
+   * Number of requests that can be sent in a burst before being held back by `requestsPerSecond`,
+   * defaults to `requestsPerSecond`.
+   */
+  burst?: number
+  /** Maximum number of requests that can be waiting for a response at the same time. */
+  maxConcurrent?: number
+}
+
+export interface IRateLimitOptions extends IRateLimit {
+  /** Limits for individual RPC methods, these apply in addition to the client-wide limits. */
+  methods?: { [method: string]: IRateLimit }
+  /**
+   * Maximum number of milliseconds a request can be held back for, requests that exceed it are
+   * rejected with a `RateLimitError`. By default requests wait as long as necessary.
+   */
+  maxWait?: number
+}
+
+/**
+ * Token bucket, a token is taken for each request sent, and tokens are added back at a fixed rate.
+ */
+class TokenBucket {
+  private _tokens: number
+  private _lastRefill: number = Date.now()
+
+  constructor(private _rate: number, private _capacity: number) {
+    this._tokens = _capacity
+  }
+
+  /** Number of milliseconds until a token will be available. */
+  get waitTime(): number {
+    this._refill()
+    return this._tokens >= 1 ? 0 : Math.ceil((1 - this._tokens) * 1000 / this._rate)
+  }
+
+  take() {
+    this._refill()
+    this._tokens--
+  }
+
+  private _refill() {
+    const now = Date.now()
+    this._tokens = Math.min(
+      this._capacity,
+      this._tokens + (now - this._lastRefill) * this._rate / 1000
+    )
+    this._lastRefill = now
+  }
+}
+
+/** Keeps track of the requests being sent under a single set of limits. */
+class Limit {
+  inFlight: number = 0
+  private _bucket: TokenBucket | null = null
+  private _maxConcurrent: number
+
+  constructor(limit: IRateLimit) {
+    const { requestsPerSecond, burst = requestsPerSecond, maxConcurrent = Infinity } = limit
+    if (requestsPerSecond) {
+      this._bucket = new TokenBucket(requestsPerSecond, Math.max(burst || 1, 1))
+    }
+    this._maxConcurrent = maxConcurrent
+  }
+
+  /**
+   * Number of milliseconds until another request can be sent, `Infinity` if that depends on a
+   * request completing.
+   */
+  get waitTime(): number {
+    if (this.inFlight >= this._maxConcurrent) {
+      return Infinity
+    }
+    return this._bucket ? this._bucket.waitTime : 0
+  }
+
+  acquire() {
+    this.inFlight++
+    if (this._bucket) {
+      this._bucket.take()
+    }
+  }
+
+  release() {
+    this.inFlight--
+  }
+}
+
+interface IQueuedRequest {
+  method: string
+  rank: number
+  resolve: () => void
+  reject: (err: Error) => void
+}
+
+/**
+ * Holds back requests that would exceed the configured rate & concurrency limits. Requests that
+ * are held back are sent in order of priority, and in the order they were made within each
+ * priority.
+ */
+export class RateLimiter {
+  private _limit: Limit
+  private _methodLimits = new Map<string, Limit>()
+  private _queue: IQueuedRequest[] = []
+  private _drainTimer: any = null
+
+  /** Maximum number of milliseconds a request can be held back for. */
+  maxWait?: number
+
+  /** Number of requests currently being held back. */
+  get queueLength(): number {
+    return this._queue.length
+  }
+
+  constructor(opts: IRateLimitOptions) {
+    const { methods = {}, maxWait, ...limit } = opts
+    this._limit = new Limit(limit)
+    Object.keys(methods).forEach(method =>
+      this._methodLimits.set(method, new Limit(methods[method]))
+    )
+    this.maxWait = maxWait
+  }
+
+  /**
+   * Sends a request as soon as the limits allow it.
+   * @param method RPC method name.
+   * @param send Sends the request.
+   * @param opts Request options, the priority and cancellation token apply while the request is
+   *             held back.
+   */
+  async runAsync<T>(
+    method: string,
+    send: () => Promise<T>,
+    opts: IRequestOptions = {}
+  ): Promise<T> {
+    const { priority = RequestPriority.Normal, cancellationToken } = opts
+    await this._acquireAsync(method, PRIORITY_RANKS[priority], cancellationToken)
+    try {
+      return await send()
+    } finally {
+      this._release(method)
+    }
+  }
+
+  private _acquireAsync(
+    method: string,
+    rank: number,
+    cancellationToken?: CancellationToken
+  ): Promise<void> {
+    if (this._queue.length === 0 && this._tryAcquire(method) === 0) {
+      return Promise.resolve()
+    }
+    if (cancellationToken && cancellationToken.isCancelled) {
+      return Promise.reject(new CancelledError())
+    }
+    return new Promise<void>((resolve, reject) => {
+      let timer: any = null
+      let unregister: (() => void) | null = null
+      const cleanUp = () => {
+        clearTimeout(timer)
+        if (unregister) {
+          unregister()
+        }
+      }
+      const entry: IQueuedRequest = {
+        method,
+        rank,
+        resolve: () => {
+          cleanUp()
+          resolve()
+        },
+        reject: (err: Error) => {
+          this._queue.splice(this._queue.indexOf(entry), 1)
+          cleanUp()
+          reject(err)
+        }
+      }
+      // insert after all the requests with the same or higher priority
+      let index = this._queue.length
+      while (index > 0 && this._queue[index - 1].rank > rank) {
+        index--
+      }
+      this._queue.splice(index, 0, entry)
+      log(`Holding back ${method}, ${this._queue.length} requests queued`)
+
+      if (this.maxWait !== undefined) {
+        timer = setTimeout(
+          () =>
+            entry.reject(
+              new RateLimitError(
+                `[RateLimiter] ${method} was held back for longer than ${this.maxWait}ms`
+              )
+            ),
+          this.maxWait
+        )
+      }
+      if (cancellationToken) {
+        unregister = cancellationToken.onCancelled(() => entry.reject(new CancelledError()))
+      }
+      this._drain()
+    })
+  }
+
+  private _release(method: string) {
+    this._limit.release()
+    const methodLimit = this._methodLimits.get(method)
+    if (methodLimit) {
+      methodLimit.release()
+    }
+    this._drain()
+  }
+
+  /**
+   * Acquires the limits for a request if possible.
+   * @returns Zero if the limits were acquired, otherwise the number of milliseconds until they may
+   *          be acquired (`Infinity` if that depends on a request completing).
+   */
+  private _tryAcquire(method: string): number {
+    const methodLimit = this._methodLimits.get(method)
+    const waitTime = Math.max(this._limit.waitTime, methodLimit ? methodLimit.waitTime : 0)
+    if (waitTime === 0) {
+      this._limit.acquire()
+      if (methodLimit) {
+        methodLimit.acquire()
+      }
+    }
+    return waitTime
+  }
+
+  /** Lets through as many of the held back requests as the limits allow. */
+  private _drain() {
+    clearTimeout(this._drainTimer)
+    this._drainTimer = null
+    let nextDrain = Infinity
+    for (let i = 0; i < this._queue.length; ) {
+      const entry = this._queue[i]
+      const waitTime = this._tryAcquire(entry.method)
+      if (waitTime === 0) {
+        this._queue.splice(i, 1)
+        entry.resolve()
+        continue
+      }
+      nextDrain = Math.min(nextDrain, waitTime)
+      if (this._limit.waitTime > 0) {
+        break // nothing else can go through until the client-wide limits allow it
+      }
+      // only this method is being held back, requests for other methods can still go through
+      i++
+    }
+    if (nextDrain !== Infinity) {
+      this._drainTimer = setTimeout(() => this._drain(), nextDrain)
+    }
+  }
+}
+
+/**
+ * Sends a request under the given rate limiter.
+ * @param limiter Rate limiter, if `undefined` the request will be sent right away.
+ * @param method RPC method name.
+ * @param opts Request options.
+ * @param send Sends the request.
+ */
+export function sendWithRateLimitAsync<T>(
+  limiter: RateLimiter | undefined,
+  method: string,
+  opts: IRequestOptions | undefined,
+  send: () => Promise<T>
+): Promise<T> {
+  return limiter ? limiter.runAsync(method, send, opts) : send()
+}
@@ -0,0 +1,83 @@
+import debug from 'debug'
+
+import { IJSONRPCBatchRequest, IJSONRPCBatchResult, IRequestOptions } from './json-rpc-client'
+
+const log = debug('request-batcher')
+
+interface IQueuedRequest extends IJSONRPCBatchRequest {
+  resolve: (result: any) => void
+  reject: (err: any) => void
+}
+
+/**
+ * Checks if a request with the given options can be sent as part of a batch, requests with their
+ * own timeout or cancellation token are always sent by themselves.
+ */
+export function isBatchable(opts?: IRequestOptions): boolean {
+  return !opts || (opts.timeout === undefined && !opts.cancellationToken)
+}
+
+/**
+ * Collects the requests made within the same tick and sends them to the server in a single
+ * JSON-RPC batch.
+ */
+export class RequestBatcher {
+  private _queue: IQueuedRequest[] = []
+  private _flushTimer: any = null
+
+  /**
+   * @param _sendAsync Sends a single request.
+   * @param _sendBatchAsync Sends a batch of requests.
+   * @param maxBatchSize Maximum number of requests to send in a single batch.
+   */
+  constructor(
+    private _sendAsync: <T>(method: string, params: object | any[]) => Promise<T>,
+    private _sendBatchAsync: (requests: IJSONRPCBatchRequest[]) => Promise<IJSONRPCBatchResult[]>,
+    public maxBatchSize: number = 50
+  ) {}
+
+  /**
+   * Queues up a request to be sent with the next batch.
+   * @returns A promise that will be resolved with the value of the result field (if any) in the
+   *          JSON-RPC response message.
+   */
+  sendAsync<T>(method: string, params: object | any[]): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this._queue.push({ method, params, resolve, reject })
+      if (this._queue.length >= this.maxBatchSize) {
+        this._flush()
+      } else if (this._flushTimer === null) {
+        this._flushTimer = setTimeout(() => this._flush(), 0)
+      }
+    })
+  }
+
+  private _flush() {
+    if (this._flushTimer !== null) {
+      clearTimeout(this._flushTimer)
+      this._flushTimer = null
+    }
+    const queued = this._queue
+    this._queue = []
+    if (queued.length === 0) {
+      return
+    }
+    if (queued.length === 1) {
+      const { method, params, resolve, reject } = queued[0]
+      this._sendAsync(method, params).then(resolve, reject)
+      return
+    }
+    log(`Sending batch of ${queued.length} requests`)
+    this._sendBatchAsync(queued.map(({ method, params }) => ({ method, params })))
+      .then(results =>
+        results.forEach((result, i) => {
+          if (result.error) {
+            queued[i].reject(result.error)
+          } else {
+            queued[i].resolve(result.result)
+          }
+        })
+      )
+      .catch(err => queued.forEach(req => req.reject(err)))
+  }
+}
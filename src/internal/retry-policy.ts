@@ -0,0 +1,124 @@
+import retry from 'retry'
+import debug from 'debug'
+
+import { TimeoutError } from '../errors'
+
+const log = debug('retry-policy')
+
+/**
+ * Determines which failed requests an RPC client resends, and how long it waits before doing so.
+ * To understand how to tweak the timing see
+ * https://github.com/tim-kos/node-retry#retrytimeoutsoptions
+ */
+export interface IRetryPolicy extends retry.OperationOptions {
+  /**
+   * Set to `true` to resend broadcast_tx_* requests too, defaults to `false`.
+   * A tx that's resent after a timeout may be rejected because of a bad nonce even though the
+   * original request went through.
+   */
+  retryBroadcast?: boolean
+}
+
+const DEFAULT_RETRY_OPTIONS: retry.OperationOptions = {
+  retries: 3,
+  minTimeout: 500, // 0.5s
+  maxTimeout: 5000, // 5s
+  randomize: true
+}
+
+/**
+ * Methods that change state on the node, or return different results each time they're called,
+ * so they're never resent.
+ */
+const NON_IDEMPOTENT_METHODS = [
+  'subevents',
+  'unsubevents',
+  'evmsubscribe',
+  'evmunsubscribe',
+  'newevmfilter',
+  'newblockevmfilter',
+  'newpendingtransactionevmfilter',
+  'getevmfilterchanges',
+  'uninstallevmfilter'
+]
+
+/** Network error codes that indicate the request may succeed if it's sent again. */
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN'
+]
+
+/**
+ * Checks if a request failed because of a network error, timeout, or server error, rather than
+ * because there's something wrong with the request itself.
+ */
+export function isTransientError(err: any): boolean {
+  if (err instanceof TimeoutError) {
+    return true
+  }
+  if (!err) {
+    return false
+  }
+  if (TRANSIENT_ERROR_CODES.indexOf(err.code) !== -1) {
+    return true
+  }
+  if (err.response && typeof err.response.status === 'number') {
+    return err.response.status >= 500
+  }
+  // axios rejects with "Network Error" when a request fails in the browser
+  return err.message === 'Network Error'
+}
+
+/**
+ * Checks if the given RPC method broadcasts a tx, such requests can't be safely resent after a
+ * network error since there's no way to tell whether the tx reached the DAppChain.
+ */
+export function isBroadcastMethod(method: string): boolean {
+  return method.indexOf('broadcast_tx') === 0
+}
+
+/**
+ * Checks if the given RPC method may be resent under the given retry policy.
+ */
+export function isRetryableMethod(policy: IRetryPolicy, method: string): boolean {
+  if (isBroadcastMethod(method)) {
+    return !!policy.retryBroadcast
+  }
+  return NON_IDEMPOTENT_METHODS.indexOf(method) === -1
+}
+
+/**
+ * Sends a request, and resends it if it fails with a transient error.
+ * @param policy Retry policy, if not set the request won't be resent.
+ * @param method RPC method name.
+ * @param send Sends the request.
+ */
+export function sendWithRetryAsync<T>(
+  policy: IRetryPolicy | undefined,
+  method: string,
+  send: () => Promise<T>
+): Promise<T> {
+  if (!policy || !isRetryableMethod(policy, method)) {
+    return send()
+  }
+  const { retryBroadcast, ...retryOptions } = policy
+  const op = retry.operation({ ...DEFAULT_RETRY_OPTIONS, ...retryOptions })
+  return new Promise<T>((resolve, reject) => {
+    op.attempt(currentAttempt => {
+      send()
+        .then(resolve)
+        .catch(err => {
+          if (isTransientError(err) && op.retry(err)) {
+            log(`Attempt ${currentAttempt} to send ${method} failed, retrying: ${err}`)
+            return
+          }
+          op.stop()
+          reject(err)
+        })
+    })
+  })
+}
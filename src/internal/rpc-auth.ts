@@ -0,0 +1,103 @@
+import debug from 'debug'
+
+const log = debug('rpc-auth')
+
+/** Returns a bearer token to authenticate requests with. */
+export type AuthTokenProvider = () => Promise<string>
+
+/**
+ * Credentials an RPC client sends along with its requests, e.g. to get past an API gateway.
+ */
+export interface IRPCAuthOptions {
+  /** Headers to send with every HTTP request, and with the WebSocket handshake. */
+  headers?: { [name: string]: string }
+  /**
+   * Called to obtain a bearer token which is sent in the `Authorization` header. The token is
+   * cached until an HTTP request is rejected with a 401 status, or the WebSocket reconnects.
+   */
+  getAuthTokenAsync?: AuthTokenProvider
+  /**
+   * Name of the query string parameter to pass the bearer token in when connecting to a
+   * WebSocket endpoint. Browsers don't allow headers to be set on the WebSocket handshake, so this
+   * is the only way to pass the token to a WebSocket endpoint in a browser.
+   */
+  authTokenQueryParam?: string
+}
+
+/**
+ * Keeps track of the credentials an RPC client should send with its requests.
+ */
+export class RPCAuth {
+  private _token?: Promise<string>
+  private _lastToken?: string
+
+  /** `true` if the credentials include a token that can be refreshed. */
+  get hasTokenProvider(): boolean {
+    return !!this._opts.getAuthTokenAsync
+  }
+
+  constructor(private _opts: IRPCAuthOptions = {}) {}
+
+  /**
+   * Returns the current bearer token, obtaining a new one from the token provider if necessary.
+   * @returns The token, or `undefined` if no token provider was set.
+   */
+  async getTokenAsync(): Promise<string | undefined> {
+    const { getAuthTokenAsync } = this._opts
+    if (!getAuthTokenAsync) {
+      return undefined
+    }
+    if (!this._token) {
+      log('Requesting new auth token')
+      const token = getAuthTokenAsync()
+      this._token = token
+      token.then(
+        value => (this._lastToken = value),
+        () => {
+          // don't cache failures, the next request should try again
+          if (this._token === token) {
+            this._token = undefined
+          }
+        }
+      )
+    }
+    return this._token
+  }
+
+  /**
+   * Discards the cached bearer token so a new one will be obtained for the next request.
+   * @param token Token that was rejected, if the cached token has already been replaced with a
+   *              different one it won't be discarded.
+   */
+  invalidateToken(token?: string) {
+    if (token === undefined || token === this._lastToken) {
+      this._token = undefined
+      this._lastToken = undefined
+    }
+  }
+
+  /**
+   * Returns the headers that should be sent with a request.
+   * @param token Bearer token to send, if omitted the Authorization header won't be set.
+   */
+  getHeaders(token?: string): { [name: string]: string } {
+    const headers: { [name: string]: string } = { ...this._opts.headers }
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`
+    }
+    return headers
+  }
+
+  /**
+   * Adds the bearer token to the given WebSocket URL, if a query string parameter was specified
+   * for the token.
+   */
+  getWSUrl(url: string, token?: string): string {
+    const param = this._opts.authTokenQueryParam
+    if (!param || !token) {
+      return url
+    }
+    const separator = url.indexOf('?') === -1 ? '?' : '&'
+    return `${url}${separator}${encodeURIComponent(param)}=${encodeURIComponent(token)}`
+  }
+}
@@ -0,0 +1,179 @@
+import { TimeoutError, CancelledError } from '../errors'
+import { IJSONRPCBatchRequest, IJSONRPCBatchResult } from './json-rpc-client'
+
+/** Upper bounds (in milliseconds) of the latency histogram buckets. */
+const LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, Infinity]
+
+export interface IRPCLatencyBucket {
+  /** Upper bound of the bucket in milliseconds (inclusive). */
+  le: number
+  /** Number of requests that completed within the bucket's bounds. */
+  count: number
+}
+
+/** Statistics for a single RPC method. */
+export interface IRPCMethodStats {
+  /** Number of completed requests. */
+  count: number
+  /** Number of requests that failed, including the ones that timed out. */
+  errors: number
+  /** Number of requests that timed out. */
+  timeouts: number
+  /** Sum of the latencies of all the completed requests, in milliseconds. */
+  totalLatency: number
+  /** Latency of the slowest request, in milliseconds. */
+  maxLatency: number
+  /** Number of requests in each latency bucket, in ascending order. */
+  histogram: IRPCLatencyBucket[]
+}
+
+/** Statistics for each RPC method, keyed by method name. */
+export interface IRPCStats {
+  [method: string]: IRPCMethodStats
+}
+
+function createMethodStats(): IRPCMethodStats {
+  return {
+    count: 0,
+    errors: 0,
+    timeouts: 0,
+    totalLatency: 0,
+    maxLatency: 0,
+    histogram: LATENCY_BUCKETS.map(le => ({ le, count: 0 }))
+  }
+}
+
+function copyMethodStats(stats: IRPCMethodStats): IRPCMethodStats {
+  return { ...stats, histogram: stats.histogram.map(bucket => ({ ...bucket })) }
+}
+
+type RequestCompletedCallback = (method: string, latency: number, err?: any) => void
+
+/**
+ * Keeps track of the number of requests an RPC client sends, how many of them fail, and how long
+ * they take.
+ */
+export class RPCMetrics {
+  private _stats = new Map<string, IRPCMethodStats>()
+
+  /**
+   * Sends a request and records the outcome, cancelled requests aren't recorded.
+   * @param method RPC method name.
+   * @param send Sends the request.
+   * @param onComplete Invoked after the outcome of the request has been recorded.
+   */
+  async measureAsync<T>(
+    method: string,
+    send: () => Promise<T>,
+    onComplete: RequestCompletedCallback
+  ): Promise<T> {
+    const start = Date.now()
+    try {
+      const result = await send()
+      this._complete(method, Date.now() - start, undefined, onComplete)
+      return result
+    } catch (err) {
+      if (!(err instanceof CancelledError)) {
+        this._complete(method, Date.now() - start, err, onComplete)
+      }
+      throw err
+    }
+  }
+
+  /**
+   * Sends a batch of requests and records the outcome of each request in the batch.
+   * @param requests Requests in the batch.
+   * @param send Sends the batch.
+   * @param onComplete Invoked after the outcome of each request has been recorded.
+   */
+  async measureBatchAsync(
+    requests: IJSONRPCBatchRequest[],
+    send: () => Promise<IJSONRPCBatchResult[]>,
+    onComplete: RequestCompletedCallback
+  ): Promise<IJSONRPCBatchResult[]> {
+    const start = Date.now()
+    try {
+      const results = await send()
+      const latency = Date.now() - start
+      requests.forEach((req, i) =>
+        this._complete(req.method, latency, results[i] && results[i].error, onComplete)
+      )
+      return results
+    } catch (err) {
+      const latency = Date.now() - start
+      requests.forEach(req => this._complete(req.method, latency, err, onComplete))
+      throw err
+    }
+  }
+
+  /**
+   * Records the outcome of a request.
+   * @param method RPC method name.
+   * @param latency Number of milliseconds it took for the request to complete.
+   * @param err Error the request failed with (if it failed).
+   */
+  record(method: string, latency: number, err?: any) {
+    let stats = this._stats.get(method)
+    if (!stats) {
+      stats = createMethodStats()
+      this._stats.set(method, stats)
+    }
+    stats.count++
+    if (err) {
+      stats.errors++
+      if (err instanceof TimeoutError) {
+        stats.timeouts++
+      }
+    }
+    stats.totalLatency += latency
+    stats.maxLatency = Math.max(stats.maxLatency, latency)
+    const bucket = stats.histogram.find(b => latency <= b.le)!
+    bucket.count++
+  }
+
+  /** Returns a snapshot of the statistics recorded so far. */
+  getStats(): IRPCStats {
+    const snapshot: IRPCStats = {}
+    this._stats.forEach((stats, method) => (snapshot[method] = copyMethodStats(stats)))
+    return snapshot
+  }
+
+  /** Discards the statistics recorded so far. */
+  reset() {
+    this._stats.clear()
+  }
+
+  private _complete(
+    method: string,
+    latency: number,
+    err: any,
+    onComplete: RequestCompletedCallback
+  ) {
+    this.record(method, latency, err)
+    onComplete(method, latency, err)
+  }
+}
+
+/**
+ * Combines the statistics of multiple RPC clients.
+ */
+export function mergeRPCStats(statsList: IRPCStats[]): IRPCStats {
+  const merged: IRPCStats = {}
+  statsList.forEach(stats =>
+    Object.keys(stats).forEach(method => {
+      const from = stats[method]
+      const to = merged[method]
+      if (!to) {
+        merged[method] = copyMethodStats(from)
+        return
+      }
+      to.count += from.count
+      to.errors += from.errors
+      to.timeouts += from.timeouts
+      to.totalLatency += from.totalLatency
+      to.maxLatency = Math.max(to.maxLatency, from.maxLatency)
+      to.histogram.forEach((bucket, i) => (bucket.count += from.histogram[i].count))
+    })
+  )
+  return merged
+}
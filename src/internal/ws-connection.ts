@@ -0,0 +1,67 @@
+import { Client as WSClient } from 'rpc-websockets'
+import { EventEmitter } from 'events'
+
+/**
+ * A single web socket connection to a JSON-RPC server, established via rpc-websockets.
+ *
+ * rpc-websockets throws away any message it can't match to a request, which includes the event
+ * messages the DAppChain pushes to subscribers, so every message is also read directly from the
+ * underlying socket. The socket isn't part of the public rpc-websockets API, this is the only place
+ * that touches it, and the rpc-websockets version is pinned because of it.
+ *
+ * Emits "open" when the connection is established, "close" with the close code when an open
+ * connection is closed, "error" with the error when something goes wrong (including failing to
+ * connect), and "message" with the raw message for each message received.
+ */
+export class WSConnection extends EventEmitter {
+  private _client: WSClient
+
+  /** Indicates whether the connection is currently open. */
+  get ready(): boolean {
+    return this._client.ready
+  }
+
+  /**
+   * @param url URL to connect to.
+   * @param opts.headers Headers to send with the handshake, browsers don't support these.
+   * @param opts.generateRequestId Generates the id of each request sent via the connection.
+   */
+  constructor(
+    url: string,
+    opts: {
+      headers?: { [name: string]: string }
+      generateRequestId?: (method: string, params: object | any[]) => string
+    } = {}
+  ) {
+    super()
+    // each connection gets its own client, so rpc-websockets must never reconnect on its own
+    this._client = new WSClient(
+      url,
+      { reconnect: false, headers: opts.headers },
+      opts.generateRequestId
+    )
+    this._client.on('open', () => this.emit('open'))
+    this._client.on('close', (code: number) => this.emit('close', code))
+    this._client.on('error', (err: any) => this.emit('error', err))
+    this._client.socket.on('message', (message: string | ArrayBuffer) =>
+      this.emit('message', message)
+    )
+  }
+
+  /**
+   * Sends a JSON-RPC request.
+   * @returns A promise that will be resolved with the result of the request, or rejected with an
+   *          Error if the request can't be sent or times out, or the JSON-RPC error object if the
+   *          server responds with an error.
+   */
+  call<T>(method: string, params: object | any[], timeout: number): Promise<T> {
+    return this._client.call<T>(method, params, timeout)
+  }
+
+  /**
+   * Closes the connection, or abandons the attempt to establish it.
+   */
+  close(code: number, reason?: string) {
+    this._client.close(code, reason)
+  }
+}
@@ -1,8 +1,16 @@
-import { Client as WSClient } from 'rpc-websockets'
 import { EventEmitter } from 'events'
 import debug from 'debug'
 
-import { IJSONRPCError, RPCClientEvent } from './json-rpc-client'
+import { IJSONRPCError, IRequestOptions, RPCClientEvent, ConnectionState } from './json-rpc-client'
+import { RateLimiter, IRateLimitOptions, sendWithRateLimitAsync } from './rate-limiter'
+import { EvmSubscriptionRegistry } from './evm-subscription-registry'
+import { EventTopics } from './event-topics'
+import { RPCMetrics, IRPCStats } from './rpc-metrics'
+import { RPCAuth, IRPCAuthOptions } from './rpc-auth'
+import { WSConnection } from './ws-connection'
+import { IRetryPolicy, sendWithRetryAsync } from './retry-policy'
+import { RPCError, TimeoutError } from '../errors'
+import { runCancellableAsync } from '../cancellation'
 
 const log = debug('ws-rpc-client')
 
@@ -31,18 +39,88 @@ export interface IJSONRPCEvent {
  * Sends JSON-RPC messages via web sockets.
  */
 export class WSRPCClient extends EventEmitter {
-  private _client: WSClient
+  /** Current connection or connection attempt, if any. */
+  private _connection: WSConnection | null = null
   private _isSubcribed: boolean = false
+  /** Number of subscribers interested in each event topic. */
+  private _topics = new EventTopics()
+  private _generateRequestId: (method: string, params: object | any[]) => string
+  /** EVM subscriptions & filters that need to be recreated when the client reconnects. */
+  private _evmSubscriptions = new EvmSubscriptionRegistry()
+  private _metrics = new RPCMetrics()
+  private _rateLimiter?: RateLimiter
+  private _auth: RPCAuth
+  private _heartbeatTimer: any = null
+  /** Number of heartbeats in a row that didn't get a response. */
+  private _missedHeartbeats: number = 0
+  private _roundTripTime?: number
+  private _connectionState: ConnectionState
+  /** Number of attempts to reconnect made since the connection was last open. */
+  private _reconnects: number = 0
+  private _reconnectTimer: any = null
+  /** Incremented whenever a connection attempt is started or abandoned. */
+  private _connectId: number = 0
+  /** Set while the client should stay connected, i.e. until disconnect() is called. */
+  private _shouldConnect: boolean = false
 
   protected _rpcId: number = 0
   protected _getNextRequestId = () => (++this._rpcId).toString()
 
   requestTimeout: number
 
+  /**
+   * Determines which failed requests are resent, if not set failed requests are never resent.
+   */
+  retryPolicy?: IRetryPolicy
+
+  /** Number of milliseconds to wait before attempting to reconnect. */
+  readonly reconnectInterval: number
+  /** Maximum number of times to reconnect, zero if there is no limit. */
+  readonly maxReconnects: number
+
+  /** Number of milliseconds between heartbeats, zero if heartbeats are disabled. */
+  readonly heartbeatInterval: number
+  /** Number of heartbeats in a row that must go unanswered before the connection is closed. */
+  readonly maxMissedHeartbeats: number
+  /** RPC method that's called to check the connection is still alive. */
+  readonly heartbeatMethod: string
+
+  /**
+   * Number of milliseconds it took to receive a response to the last successful heartbeat,
+   * undefined if heartbeats are disabled or none have been answered yet.
+   */
+  get roundTripTime(): number | undefined {
+    return this._roundTripTime
+  }
+
   get isSubscribed(): boolean {
     return this._isSubcribed
   }
 
+  get connectionState(): ConnectionState {
+    return this._connectionState
+  }
+
+  /** Indicates whether the web socket connection is currently open. */
+  get isConnected(): boolean {
+    return this._connection !== null && this._connection.ready
+  }
+
+  /**
+   * Ids of the EVM subscriptions & filters created via this client that haven't been removed yet.
+   */
+  get evmSubscriptionIds(): string[] {
+    return this._evmSubscriptions.ids
+  }
+
+  /**
+   * Event topics the client is currently subscribed to, if empty the client is subscribed to all
+   * events emitted on the DAppChain.
+   */
+  get topics(): string[] {
+    return this._topics.topics
+  }
+
   /**
    *
    * @param url
@@ -51,6 +129,19 @@ export class WSRPCClient extends EventEmitter {
    * @param opts.reconnectInterval Number of milliseconds to wait before attempting to reconnect
    *                               (in case the connection drops out).
    * @param opts.maxReconnects Maximum number of times to reconnect, defaults to infinity.
+   * @param opts.retryPolicy If set requests that fail because of network errors, timeouts, or
+   *                         server errors will be resent according to this policy.
+   * @param opts.heartbeatInterval Number of milliseconds between heartbeats, heartbeats are used
+   *                               to detect connections that died without being closed. Defaults
+   *                               to zero, which disables heartbeats.
+   * @param opts.maxMissedHeartbeats Number of heartbeats in a row that must go unanswered before
+   *                                 the connection is closed and reestablished, defaults to 3.
+   * @param opts.heartbeatMethod RPC method to call for each heartbeat, should be cheap for the
+   *                             server to respond to, defaults to "getblockheight".
+   * @param opts.auth Headers and/or bearer token to send with the WebSocket handshake, a new token
+   *                  is requested each time the client (re)connects.
+   * @param opts.rateLimit Limits the rate at which requests are sent, and the number of requests
+   *                        that can be waiting for a response at the same time.
    */
   constructor(
     public url: string,
@@ -60,96 +151,120 @@ export class WSRPCClient extends EventEmitter {
       reconnectInterval?: number
       maxReconnects?: number
       generateRequestId?: (method: string, params: object | any[]) => string
+      retryPolicy?: IRetryPolicy
+      heartbeatInterval?: number
+      maxMissedHeartbeats?: number
+      heartbeatMethod?: string
+      auth?: IRPCAuthOptions
+      rateLimit?: IRateLimitOptions
     } = {}
   ) {
     super()
     const {
       autoConnect = true,
       requestTimeout = 15000, // 15s
-      reconnectInterval,
+      reconnectInterval = 1000,
       maxReconnects = 0, // 0 means there is no limit
-      generateRequestId = this._getNextRequestId
+      generateRequestId = this._getNextRequestId,
+      retryPolicy,
+      heartbeatInterval = 0,
+      maxMissedHeartbeats = 3,
+      heartbeatMethod = 'getblockheight',
+      auth,
+      rateLimit
     } = opts
 
-    this._client = new WSClient(
-      url,
-      {
-        autoconnect: autoConnect,
-        reconnect: true,
-        reconnect_interval: reconnectInterval,
-        max_reconnects: maxReconnects
-      },
-      generateRequestId
-    )
-
+    this._auth = new RPCAuth(auth)
+    if (rateLimit) {
+      this._rateLimiter = new RateLimiter(rateLimit)
+    }
     this.requestTimeout = requestTimeout
+    this.retryPolicy = retryPolicy
+    this.heartbeatInterval = heartbeatInterval
+    this.maxMissedHeartbeats = maxMissedHeartbeats
+    this.heartbeatMethod = heartbeatMethod
+    this.reconnectInterval = reconnectInterval
+    this.maxReconnects = maxReconnects
+    this._generateRequestId = generateRequestId
 
     this.on('newListener', (event: string) => {
       if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
         // rpc-websockets is just going to throw away the event messages from the DAppChain because
-        // they don't conform to it's idea of notifications or events... fortunately few things in
-        // javascript are truly private... so we'll just handle those event message ourselves ;)
-        ;((this._client as any).socket as EventEmitter).on('message', this._onEventMessage)
-        if (this._client.ready) {
+        // they don't conform to it's idea of notifications or events, so WSConnection passes the
+        // raw messages along and we'll just handle those event messages ourselves.
+        // If there's no connection yet the handler will be attached when the connection opens.
+        if (this._connection) {
+          this._connection.on('message', this._onEventMessage)
+        }
+        if (this.isConnected) {
           log('Subscribe for events')
-          this._client
-            .call('subevents', { topics: null }, this.requestTimeout)
-            .then(() => {
-              this._isSubcribed = true
-              this.emit(RPCClientEvent.Subscribed, this.url, true)
-            })
-            .catch(err => this.emit(RPCClientEvent.Error, this.url, err))
+          this._subscribe()
         }
       }
     })
 
     this.on('removeListener', (event: string) => {
       if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
-        ;((this._client as any).socket as EventEmitter).removeListener(
-          'message',
-          this._onEventMessage
-        )
-        if (this._client.ready) {
+        if (this._connection) {
+          this._connection.removeListener('message', this._onEventMessage)
+        }
+        if (this.isConnected) {
           log('Unsubscribed for events')
-          this._client
-            .call('unsubevents', { topics: null }, this.requestTimeout)
-            .then(() => {
-              this._isSubcribed = false
-              this.emit(RPCClientEvent.Subscribed, this.url, false)
-            })
-            .catch(err => this.emit(RPCClientEvent.Error, this.url, err))
+          this._unsubscribe()
         }
       }
     })
 
-    this._client.on('open', () => {
-      this.emit(RPCClientEvent.Connected, this.url)
-      if (this.listenerCount(RPCClientEvent.Message) > 0) {
-        this._client
-          .call('subevents', { topics: null }, this.requestTimeout)
-          .then(() => {
-            this._isSubcribed = true
-            this.emit(RPCClientEvent.Subscribed, this.url, true)
-          })
-          .catch(err => this.emit(RPCClientEvent.Error, this.url, err))
-      }
-    })
-    this._client.on('close', () => {
-      if (this.listenerCount(RPCClientEvent.Message) > 0) {
-        this._isSubcribed = false
-        this.emit(RPCClientEvent.Subscribed, this.url, false)
-      }
-      this.emit(RPCClientEvent.Disconnected, this.url)
-    })
-    this._client.on('error', err => this.emit(RPCClientEvent.Error, this.url, err))
+    this._connectionState = autoConnect ? ConnectionState.Connecting : ConnectionState.Closed
+    if (autoConnect) {
+      this._connect()
+    }
   }
 
   /**
    * Gracefully closes the underlying web socket connection.
    */
   disconnect() {
-    this._client.reconnect = false
-    this._client.close(0)
+    this._shouldConnect = false
+    this._stopReconnecting()
+    this._stopHeartbeat()
+    const connection = this._connection
+    if (connection && connection.ready) {
+      // the state will change once the connection is closed
+      connection.close(1000)
+    } else {
+      // abandon the connection attempt (if any), anything it emits from now on is ignored
+      this._connection = null
+      if (connection) {
+        connection.close(1000)
+      }
+      this._setConnectionState(ConnectionState.Closed, this._reconnects)
+    }
+  }
+
+  /**
+   * Closes the current web socket connection (if any), and establishes a new one.
+   *
+   * This can also be used to try again once the client gives up on reconnecting, i.e. when the
+   * connection state is `ConnectionState.Failed`.
+   */
+  reconnect() {
+    this._shouldConnect = true
+    this._reconnects = 0
+    switch (this._connectionState) {
+      case ConnectionState.Open:
+        // a new connection will be established as soon as the current one is dropped
+        this._dropConnection('Reconnect requested')
+        break
+      case ConnectionState.Closed:
+      case ConnectionState.Failed:
+        this._setConnectionState(ConnectionState.Connecting, 0)
+        this._connect()
+        break
+      default:
+        // already trying to connect
+        break
+    }
   }
 
   /**
@@ -157,15 +272,15 @@ export class WSRPCClient extends EventEmitter {
    * @returns A promise that will be resolved when a connection is established.
    */
   ensureConnectionAsync(): Promise<void> {
-    if (this._client.ready) {
+    if (this.isConnected) {
       return Promise.resolve()
     }
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(
-        () => reject(new Error('[WSRPCClient] Timeout while waiting for connection')),
+        () => reject(new TimeoutError('[WSRPCClient] Timeout while waiting for connection')),
         this.requestTimeout
       )
-      this._client.once('open', () => {
+      this.once(RPCClientEvent.Connected, () => {
         clearTimeout(timeout)
         resolve()
       })
@@ -176,13 +291,345 @@ export class WSRPCClient extends EventEmitter {
    * Sends a JSON-RPC message.
    * @param method RPC method name.
    * @param params Parameter object or array.
+   * @param opts Options object, requests with a timeout or cancellation token are never batched.
    * @returns A promise that will be resolved with the value of the result field (if any) in the
    *          JSON-RPC response message.
    */
-  async sendAsync<T>(method: string, params: object | any[]): Promise<T> {
-    await this.ensureConnectionAsync()
-    log(`Sending RPC msg to ${this.url}, method ${method}`)
-    return this._client.call<T>(method, params, this.requestTimeout)
+  sendAsync<T>(method: string, params: object | any[], opts?: IRequestOptions): Promise<T> {
+    return this._metrics.measureAsync(
+      method,
+      async () => {
+        const serverParams = this._evmSubscriptions.toServerParams(method, params)
+        const result = await sendWithRetryAsync(this.retryPolicy, method, () =>
+          sendWithRateLimitAsync(this._rateLimiter, method, opts, () =>
+            this._sendAsync<T>(method, serverParams, opts)
+          )
+        )
+        this._evmSubscriptions.onResponse(method, params, result)
+        return result
+      },
+      this._emitRequestCompleted
+    )
+  }
+
+  /** Returns a snapshot of the request statistics for each RPC method. */
+  getStats(): IRPCStats {
+    return this._metrics.getStats()
+  }
+
+  /** Discards the request statistics recorded so far. */
+  resetStats() {
+    this._metrics.reset()
+  }
+
+  private _sendAsync<T>(
+    method: string,
+    params: object | any[],
+    opts: IRequestOptions = {}
+  ): Promise<T> {
+    const { timeout = this.requestTimeout, cancellationToken } = opts
+    // Once the request is cancelled the response (or timeout) is simply ignored, rpc-websockets
+    // will clean up after the request on its own.
+    return runCancellableAsync(cancellationToken, async () => {
+      await this.ensureConnectionAsync()
+      log(`Sending RPC msg to ${this.url}, method ${method}`)
+      try {
+        return await this._callAsync<T>(method, params, timeout)
+      } catch (err) {
+        throw toTypedError(err, method)
+      }
+    })
+  }
+
+  /**
+   * Narrows the event subscription down to the given topics.
+   *
+   * Topics are reference counted, so each call must be matched by a call to removeTopics() with
+   * the same topics once the caller is no longer interested in them. While no topics are set, or
+   * while anyone has added an empty array of topics, the client receives all the events emitted
+   * on the DAppChain.
+   */
+  addTopics(topics: string[]) {
+    const prevTopics = this.topics
+    this._topics.add(topics)
+    this._updateSubscription(prevTopics)
+  }
+
+  /**
+   * Releases topics previously added via addTopics().
+   */
+  removeTopics(topics: string[]) {
+    const prevTopics = this.topics
+    this._topics.remove(topics)
+    this._updateSubscription(prevTopics)
+  }
+
+  private _subscribe() {
+    const topics = this.topics
+    this._callAndReport('subevents', topics.length > 0 ? topics : null, () => {
+      this._isSubcribed = true
+      this.emit(RPCClientEvent.Subscribed, this.url, true)
+    })
+  }
+
+  private _unsubscribe() {
+    const topics = this.topics
+    this._callAndReport('unsubevents', topics.length > 0 ? topics : null, () => {
+      this._isSubcribed = false
+      this.emit(RPCClientEvent.Subscribed, this.url, false)
+    })
+  }
+
+  /**
+   * Changes the topics of an active subscription.
+   * @param prevTopics Topics the client was subscribed to before the change.
+   */
+  private _updateSubscription(prevTopics: string[]) {
+    if (!this.isConnected || this.listenerCount(RPCClientEvent.Message) === 0) {
+      // the current topics will be sent when the subscription is (re)established
+      return
+    }
+    const nextTopics = this.topics
+    if (prevTopics.length > 0 && nextTopics.length > 0) {
+      const removed = prevTopics.filter(topic => nextTopics.indexOf(topic) === -1)
+      const added = nextTopics.filter(topic => prevTopics.indexOf(topic) === -1)
+      if (removed.length > 0) {
+        this._callAndReport('unsubevents', removed)
+      }
+      if (added.length > 0) {
+        this._callAndReport('subevents', added)
+      }
+    } else if (prevTopics.length > 0 || nextTopics.length > 0) {
+      // switching between specific topics and all events
+      this._callAndReport('unsubevents', prevTopics.length > 0 ? prevTopics : null)
+      this._callAndReport('subevents', nextTopics.length > 0 ? nextTopics : null)
+    }
+  }
+
+  /**
+   * Recreates the EVM subscriptions & filters the node forgot about when the connection dropped.
+   */
+  private _restoreEvmSubscriptions() {
+    if (this._evmSubscriptions.ids.length === 0) {
+      return
+    }
+    log(`Restoring ${this._evmSubscriptions.ids.length} EVM subscriptions`)
+    this._evmSubscriptions
+      .restoreAsync(
+        (method, params) => this._sendAsync(method, params),
+        (id, err) => {
+          log(`Failed to restore EVM subscription ${id}: ${err}`)
+          this.emit(RPCClientEvent.EvmSubscriptionLost, this.url, id, err)
+        }
+      )
+      // each subscription that couldn't be restored has already been reported, so there's
+      // nothing left to do here but make sure the rejection doesn't go unhandled
+      .catch(err => log(`Failed to restore EVM subscriptions: ${err}`))
+  }
+
+  private _startHeartbeat() {
+    this._stopHeartbeat()
+    if (this.heartbeatInterval > 0) {
+      this._heartbeatTimer = setInterval(() => this._sendHeartbeat(), this.heartbeatInterval)
+    }
+  }
+
+  private _stopHeartbeat() {
+    if (this._heartbeatTimer !== null) {
+      clearInterval(this._heartbeatTimer)
+      this._heartbeatTimer = null
+    }
+    this._missedHeartbeats = 0
+  }
+
+  private _sendHeartbeat() {
+    const start = Date.now()
+    this._callAsync(this.heartbeatMethod, {}, this.heartbeatInterval)
+      .then(() => {
+        this._missedHeartbeats = 0
+        this._roundTripTime = Date.now() - start
+      })
+      .catch(err => {
+        // the server responded, so the connection is still alive
+        if (!(err instanceof Error)) {
+          this._missedHeartbeats = 0
+          return
+        }
+        this._missedHeartbeats++
+        log(`Missed heartbeat ${this._missedHeartbeats} from ${this.url}: ${err}`)
+        if (this._missedHeartbeats >= this.maxMissedHeartbeats && this._heartbeatTimer !== null) {
+          this._dropConnection('Heartbeat timeout')
+        }
+      })
+  }
+
+  /**
+   * Abandons the current connection, and attempts to reconnect.
+   */
+  private _dropConnection(reason: string) {
+    const connection = this._connection
+    if (!connection) {
+      return
+    }
+    log(`Closing connection to ${this.url}: ${reason}`)
+    // The connection is considered closed right away, rather than once the server acknowledges the
+    // close, which it may never do if the connection died.
+    this._onClose(4000)
+    connection.close(4000, reason)
+  }
+
+  /**
+   * Opens a new connection, obtaining a fresh auth token first (if there's a token provider).
+   */
+  private _connect() {
+    this._shouldConnect = true
+    const connectId = ++this._connectId
+    if (!this._auth.hasTokenProvider) {
+      this._openConnection()
+      return
+    }
+    // the server may have closed the connection because the token expired
+    this._auth.invalidateToken()
+    this._auth.getTokenAsync().then(
+      token => {
+        if (connectId === this._connectId) {
+          this._openConnection(token)
+        }
+      },
+      err => {
+        log(`Failed to get auth token for ${this.url}: ${err}`)
+        this.emit(RPCClientEvent.Error, this.url, err)
+        // treat it like any other failed attempt to connect, unless the attempt was abandoned
+        if (connectId === this._connectId) {
+          this._scheduleReconnect()
+        }
+      }
+    )
+  }
+
+  /**
+   * Establishes a new connection, each reconnect needs a new connection so that it can be given a
+   * fresh auth token.
+   */
+  private _openConnection(token?: string) {
+    const connection = this._createConnection(
+      this._auth.getWSUrl(this.url, token),
+      this._auth.getHeaders(token)
+    )
+    this._connection = connection
+    // once the connection is closed or abandoned it's dropped, and anything it emits after that
+    // is ignored
+    connection.on('open', () => {
+      if (connection === this._connection) {
+        this._onOpen()
+      }
+    })
+    connection.on('close', (code: number) => {
+      if (connection === this._connection) {
+        this._onClose(code)
+      }
+    })
+    connection.on('error', (err: any) => {
+      if (connection !== this._connection) {
+        return
+      }
+      this.emit(RPCClientEvent.Error, this.url, err)
+      // "close" is only emitted for connections that were open
+      if (!connection.ready) {
+        this._connection = null
+        this._scheduleReconnect()
+      }
+    })
+  }
+
+  private _createConnection(url: string, headers: { [name: string]: string }): WSConnection {
+    return new WSConnection(url, { headers, generateRequestId: this._generateRequestId })
+  }
+
+  private _onOpen() {
+    this._reconnects = 0
+    this._setConnectionState(ConnectionState.Open, 0)
+    this.emit(RPCClientEvent.Connected, this.url)
+    const connection = this._connection
+    if (connection && this.listenerCount(RPCClientEvent.Message) > 0) {
+      connection.removeListener('message', this._onEventMessage)
+      connection.on('message', this._onEventMessage)
+      this._subscribe()
+    }
+    this._restoreEvmSubscriptions()
+    this._startHeartbeat()
+  }
+
+  private _onClose(code: number) {
+    this._connection = null
+    this._stopHeartbeat()
+    if (this.listenerCount(RPCClientEvent.Message) > 0) {
+      this._isSubcribed = false
+      this.emit(RPCClientEvent.Subscribed, this.url, false)
+    }
+    this.emit(RPCClientEvent.Disconnected, this.url)
+    if (code === 1000 || !this._shouldConnect) {
+      this._setConnectionState(ConnectionState.Closed, this._reconnects)
+    } else {
+      this._scheduleReconnect()
+    }
+  }
+
+  /**
+   * Schedules another attempt to connect, unless the maximum number of attempts has been reached.
+   */
+  private _scheduleReconnect() {
+    this._reconnects++
+    if (this.maxReconnects > 0 && this._reconnects >= this.maxReconnects) {
+      this._setConnectionState(ConnectionState.Failed, this._reconnects)
+      return
+    }
+    this._setConnectionState(
+      ConnectionState.Reconnecting,
+      this._reconnects,
+      this.reconnectInterval
+    )
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = null
+      this._connect()
+    }, this.reconnectInterval)
+  }
+
+  /** Cancels the pending attempt to reconnect, or to obtain an auth token, if any. */
+  private _stopReconnecting() {
+    this._connectId++
+    if (this._reconnectTimer !== null) {
+      clearTimeout(this._reconnectTimer)
+      this._reconnectTimer = null
+    }
+  }
+
+  /** Sends a request via the current connection. */
+  private _callAsync<T>(method: string, params: object | any[], timeout: number): Promise<T> {
+    if (!this._connection) {
+      // same as rpc-websockets while the connection isn't open
+      return Promise.reject(new Error('socket not ready'))
+    }
+    return this._connection.call<T>(method, params, timeout)
+  }
+
+  private _setConnectionState(state: ConnectionState, attempt: number, nextDelay?: number) {
+    if (state === this._connectionState && state !== ConnectionState.Reconnecting) {
+      return
+    }
+    log(`Connection to ${this.url} is ${state}, attempt ${attempt}`)
+    this._connectionState = state
+    this.emit(RPCClientEvent.ConnectionStateChanged, this.url, state, attempt, nextDelay)
+  }
+
+  private _callAndReport(method: string, topics: string[] | null, onSuccess?: () => void) {
+    this._callAsync(method, { topics }, this.requestTimeout)
+      .then(() => onSuccess && onSuccess())
+      .catch(err => this.emit(RPCClientEvent.Error, this.url, err))
+  }
+
+  private _emitRequestCompleted = (method: string, latency: number, err?: any): void => {
+    this.emit(RPCClientEvent.RequestCompleted, this.url, method, latency, err)
   }
 
   private _onEventMessage = (message: string | ArrayBuffer): void => {
@@ -191,8 +638,30 @@ export class WSRPCClient extends EventEmitter {
 
     // Events from native loomchain have the id equals 0
     // Events from EVM have the id from the evmsubscribe command
-    if (msg.id === '0' || /^0x.+$/.test(msg.id)) {
+    if (msg.id === '0') {
+      this.emit(RPCClientEvent.Message, this.url, msg)
+    } else if (/^0x.+$/.test(msg.id)) {
+      msg.id = this._evmSubscriptions.toCallerId(msg.id)
       this.emit(RPCClientEvent.Message, this.url, msg)
     }
   }
 }
+
+/**
+ * Converts the errors rpc-websockets rejects requests with to the errors the rest of loom-js
+ * understands.
+ */
+function toTypedError(err: any, method: string): any {
+  if (err instanceof Error) {
+    if (err.message === 'reply timeout') {
+      return new TimeoutError(`[WSRPCClient] Timeout while waiting for response to ${method}`)
+    }
+    return err
+  }
+  // JSON-RPC error objects are passed through as is
+  if (err && typeof err.code === 'number') {
+    const { code, message, data } = err as IJSONRPCError
+    return new RPCError(code, message, data)
+  }
+  return err
+}
@@ -2,11 +2,8 @@ import debug from 'debug'
 import { Client, ClientEvent, IChainEventArgs } from './client'
 import { createDefaultTxMiddleware } from './helpers'
 import {
-  CallTx,
-  MessageTx,
   Transaction,
   VMType,
-  DeployTx,
   DeployResponse,
   DeployResponseData,
   EventData,
@@ -16,6 +13,9 @@ import {
   EthBlockInfo
 } from './proto/loom_pb'
 import { Address, LocalAddress } from './address'
+import { createEvmCallTx, createEvmDeployTx } from './tx-builder'
+import { RequestPriority } from './internal/rate-limiter'
+import { ISigner, LocalSigner } from './signer'
 import {
   bytesToHexAddr,
   numberToHex,
@@ -81,19 +81,24 @@ const numberToHexLC = (num: number): string => {
 export class LoomProvider {
   private _client: Client
   protected notificationCallbacks: Array<Function>
+  // Private keys of the accounts added via addAccounts()
   readonly accounts: Map<string, Uint8Array>
+  // Signers of all the accounts, including those added via addAccounts()
+  readonly signers: Map<string, ISigner>
   readonly accountsAddrList: Array<string>
 
   /**
    * Constructs the LoomProvider to bridges communication between Web3 and Loom DappChains
    *
    * @param client Client from LoomJS
-   * @param privateKey Account private key
+   * @param privateKey Account private key, may be omitted if accounts will be added via
+   *                   addSignersAsync() instead.
    */
-  constructor(client: Client, privateKey: Uint8Array) {
+  constructor(client: Client, privateKey?: Uint8Array) {
     this._client = client
     this.notificationCallbacks = new Array()
     this.accounts = new Map<string, Uint8Array>()
+    this.signers = new Map<string, ISigner>()
     this.accountsAddrList = new Array()
 
     this._client.addListener(ClientEvent.Contract, (msg: IChainEventArgs) =>
@@ -101,13 +106,15 @@ export class LoomProvider {
     )
 
     this.addDefaultEvents()
-    this.addAccounts([privateKey])
+    if (privateKey) {
+      this.addAccounts([privateKey])
+    }
   }
 
   /**
    * Creates new accounts by passing the private key array
    *
-   * Accounts will be available on public properties accounts and accountsAddrList
+   * Accounts will be available on public properties accounts, signers and accountsAddrList
    *
    * @param accountsPrivateKey Array of private keys to create new accounts
    */
@@ -115,12 +122,37 @@ export class LoomProvider {
     accountsPrivateKey.forEach(accountPrivateKey => {
       const publicKey = publicKeyFromPrivateKey(accountPrivateKey)
       const accountAddress = LocalAddress.fromPublicKey(publicKey).toString()
-      this.accountsAddrList.push(accountAddress)
       this.accounts.set(accountAddress, accountPrivateKey)
-      log(`New account added ${accountAddress}`)
+      this._addSigner(accountAddress, new LocalSigner(accountPrivateKey))
     })
   }
 
+  /**
+   * Creates new accounts from the given signers, the signers will be used to sign txs sent from
+   * the new accounts, so the private keys don't need to be held in memory.
+   *
+   * Accounts will be available on public properties signers and accountsAddrList
+   *
+   * @param signers Array of signers to create new accounts for
+   * @returns Addresses of the new accounts
+   */
+  async addSignersAsync(signers: Array<ISigner>): Promise<Array<string>> {
+    const publicKeys = await Promise.all(signers.map(signer => signer.getPublicKeyAsync()))
+    return publicKeys.map((publicKey, i) => {
+      const accountAddress = LocalAddress.fromPublicKey(publicKey).toString()
+      this._addSigner(accountAddress, signers[i])
+      return accountAddress
+    })
+  }
+
+  private _addSigner(accountAddress: string, signer: ISigner) {
+    if (!this.signers.has(accountAddress)) {
+      this.accountsAddrList.push(accountAddress)
+    }
+    this.signers.set(accountAddress, signer)
+    log(`New account added ${accountAddress}`)
+  }
+
   // PUBLIC FUNCTION TO SUPPORT WEB3
 
   on(type: string, callback: any) {
@@ -359,7 +391,10 @@ export class LoomProvider {
   }
 
   private async _ethGetFilterChanges(payload: IEthRPCPayload) {
-    const result = await this._client.getEvmFilterChangesAsync(payload.params[0])
+    // web3 polls for filter changes in the background, so other requests should go first
+    const result = await this._client.getEvmFilterChangesAsync(payload.params[0], {
+      priority: RequestPriority.Low
+    })
 
     if (!result) {
       return []
@@ -451,25 +486,8 @@ export class LoomProvider {
 
   private async _deployAsync(payload: { from: string; data: string }): Promise<any> {
     const caller = new Address(this._client.chainId, LocalAddress.fromHexString(payload.from))
-    const address = new Address(
-      this._client.chainId,
-      LocalAddress.fromHexString('0x0000000000000000000000000000000000000000')
-    )
-
     const data = Buffer.from(payload.data.substring(2), 'hex')
-
-    const deployTx = new DeployTx()
-    deployTx.setVmType(VMType.EVM)
-    deployTx.setCode(bufferToProtobufBytes(data))
-
-    const msgTx = new MessageTx()
-    msgTx.setFrom(caller.MarshalPB())
-    msgTx.setTo(address.MarshalPB())
-    msgTx.setData(deployTx.serializeBinary())
-
-    const tx = new Transaction()
-    tx.setId(1)
-    tx.setData(msgTx.serializeBinary())
+    const tx = createEvmDeployTx(caller, bufferToProtobufBytes(data))
 
     const ret = await this._commitTransaction(payload.from, tx)
     const response = DeployResponse.deserializeBinary(bufferToProtobufBytes(ret as Uint8Array))
@@ -485,19 +503,7 @@ export class LoomProvider {
     const address = new Address(this._client.chainId, LocalAddress.fromHexString(payload.to))
     const data = Buffer.from(payload.data.substring(2), 'hex')
 
-    const callTx = new CallTx()
-    callTx.setVmType(VMType.EVM)
-    callTx.setInput(bufferToProtobufBytes(data))
-
-    const msgTx = new MessageTx()
-    msgTx.setFrom(caller.MarshalPB())
-    msgTx.setTo(address.MarshalPB())
-    msgTx.setData(callTx.serializeBinary())
-
-    const tx = new Transaction()
-    tx.setId(2)
-    tx.setData(msgTx.serializeBinary())
-
+    const tx = createEvmCallTx(caller, address, bufferToProtobufBytes(data))
     return this._commitTransaction(payload.from, tx)
   }
 
@@ -668,13 +674,13 @@ export class LoomProvider {
     fromPublicAddr: string,
     txTransaction: Transaction
   ): Promise<Uint8Array | void> {
-    const privateKey = this.accounts.get(fromPublicAddr)
+    const signer = this.signers.get(fromPublicAddr)
 
-    if (!privateKey) {
+    if (!signer) {
       throw Error(`Account not found for address ${fromPublicAddr}`)
     }
 
-    const middleware = createDefaultTxMiddleware(this._client, privateKey)
+    const middleware = createDefaultTxMiddleware(this._client, signer)
     return this._client.commitTxAsync<Transaction>(txTransaction, { middleware })
   }
 
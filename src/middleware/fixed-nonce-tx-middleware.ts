@@ -0,0 +1,27 @@
+import { NonceTx } from '../proto/loom_pb'
+import { ITxMiddlewareHandler } from '../client'
+
+/**
+ * Wraps data in a NonceTx using a nonce that's known in advance.
+ * Unlike NonceTxMiddleware this middleware doesn't need to talk to the DAppChain, so it can be used
+ * to sign txs offline.
+ */
+export class FixedNonceTxMiddleware implements ITxMiddlewareHandler {
+  // Nonce of the last tx committed by the signer, the tx will be assigned the next nonce.
+  nonce: number
+
+  /**
+   * @param nonce Nonce of the last tx committed by the signer, as returned by
+   *              `Client.getNonceAsync()`.
+   */
+  constructor(nonce: number) {
+    this.nonce = nonce
+  }
+
+  Handle(txData: Readonly<Uint8Array>): Promise<Uint8Array> {
+    const tx = new NonceTx()
+    tx.setInner(txData as Uint8Array)
+    tx.setSequence(this.nonce + 1)
+    return Promise.resolve(tx.serializeBinary())
+  }
+}
@@ -1,2 +1,3 @@
 export { SignedTxMiddleware } from './signed-tx-middleware'
 export { NonceTxMiddleware } from './nonce-tx-middleware'
+export { FixedNonceTxMiddleware } from './fixed-nonce-tx-middleware'
@@ -1,26 +1,42 @@
 import { NonceTx } from '../proto/loom_pb'
 import { ITxMiddlewareHandler, Client } from '../client'
 import { bytesToHex } from '../crypto-utils'
+import { ISigner } from '../signer'
 
 /**
  * Wraps data in a NonceTx.
  * The Loom DAppChain keeps track of the nonce of the last committed tx to prevent replay attacks.
+ *
+ * If the client has a NonceManager the nonce will be obtained from it, otherwise the nonce will be
+ * fetched from the DAppChain for every tx.
  */
 export class NonceTxMiddleware implements ITxMiddlewareHandler {
-  private _publicKey: Uint8Array
+  private _publicKey: Uint8Array | ISigner
   private _client: Client
 
-  constructor(publicKey: Uint8Array, client: Client) {
-    this._publicKey = publicKey
+  /**
+   * @param publicKeyOrSigner Public key of the tx signer, or the signer itself (in which case the
+   *                          public key is obtained from the signer when the first tx is sent).
+   * @param client The client the middleware is being created for.
+   */
+  constructor(publicKeyOrSigner: Uint8Array | ISigner, client: Client) {
+    this._publicKey = publicKeyOrSigner
     this._client = client
   }
 
   async Handle(txData: Readonly<Uint8Array>): Promise<Uint8Array> {
+    if (!(this._publicKey instanceof Uint8Array)) {
+      this._publicKey = await this._publicKey.getPublicKeyAsync()
+    }
     const key = bytesToHex(this._publicKey)
-    const nonce = await this._client.getNonceAsync(key)
     const tx = new NonceTx()
     tx.setInner(txData as Uint8Array)
-    tx.setSequence(nonce + 1)
+    if (this._client.nonceManager) {
+      tx.setSequence(await this._client.nonceManager.getNextNonceAsync(key))
+    } else {
+      const nonce = await this._client.getNonceAsync(key)
+      tx.setSequence(nonce + 1)
+    }
     return tx.serializeBinary()
   }
 }
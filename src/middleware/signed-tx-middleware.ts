@@ -1,28 +1,37 @@
 import { SignedTx } from '../proto/loom_pb'
 import { ITxMiddlewareHandler } from '../client'
-import { sign, publicKeyFromPrivateKey } from '../crypto-utils'
+import { ISigner, LocalSigner, toSigner } from '../signer'
 
 /**
  * Signs transactions.
  */
 export class SignedTxMiddleware implements ITxMiddlewareHandler {
-  // The private key that should be used to sign txs.
-  privateKey: Uint8Array
+  // The signer that should be used to sign txs.
+  signer: ISigner
+
+  // The private key that's used to sign txs, only set if txs are signed with a local key.
+  get privateKey(): Uint8Array | undefined {
+    return this.signer instanceof LocalSigner ? this.signer.privateKey : undefined
+  }
 
   /**
    * Creates middlware that signs txs with the given key.
-   * @param privateKey The private key that should be used to sign txs.
+   * @param privateKeyOrSigner The private key, or signer, that should be used to sign txs.
    */
-  constructor(privateKey: Uint8Array) {
-    this.privateKey = privateKey
+  constructor(privateKeyOrSigner: Uint8Array | ISigner) {
+    this.signer = toSigner(privateKeyOrSigner)
   }
 
-  Handle(txData: Readonly<Uint8Array>): Promise<Uint8Array> {
-    const sig = sign(txData as Uint8Array, this.privateKey)
+  async Handle(txData: Readonly<Uint8Array>): Promise<Uint8Array> {
+    const signer = this.signer
+    const [sig, publicKey] = await Promise.all([
+      signer.signAsync(txData as Uint8Array),
+      signer.getPublicKeyAsync()
+    ])
     const signedTx = new SignedTx()
     signedTx.setInner(txData as Uint8Array)
     signedTx.setSignature(sig)
-    signedTx.setPublicKey(publicKeyFromPrivateKey(this.privateKey))
-    return Promise.resolve(signedTx.serializeBinary())
+    signedTx.setPublicKey(publicKey)
+    return signedTx.serializeBinary()
   }
 }
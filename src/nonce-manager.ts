@@ -0,0 +1,66 @@
+import debug from 'debug'
+
+import { Client } from './client'
+
+const log = debug('nonce-manager')
+
+/**
+ * Hands out nonces to txs from a local counter, so that txs signed with the same key can be sent
+ * to the DAppChain concurrently without ending up with the same nonce.
+ *
+ * The counter for each key is initialized from the DAppChain the first time a nonce is requested
+ * for that key, and is re-initialized after resync() is called for the key. The Client resyncs
+ * the counter automatically whenever a tx may not have been accepted by the DAppChain, i.e. when
+ * the tx is rejected by CheckTx (because of a bad nonce or any other reason), or when sending the
+ * tx fails (because of a timeout, a network error, etc.)
+ *
+ * To share a nonce manager between all the NonceTxMiddleware instances created for a client...
+ *
+ * client.nonceManager = new NonceManager(client)
+ */
+export class NonceManager {
+  private _client: Client
+  // Maps hex encoded public keys to the last nonce handed out for that key.
+  private _nonces = new Map<string, Promise<number>>()
+
+  /**
+   * @param client Client to use to fetch the current nonce of a key from the DAppChain.
+   */
+  constructor(client: Client) {
+    this._client = client
+  }
+
+  /**
+   * Reserves the next nonce for the given key.
+   * @param key A hex encoded public key.
+   * @returns The nonce that should be assigned to the next tx signed with the given key.
+   */
+  getNextNonceAsync(key: string): Promise<number> {
+    let lastNonce = this._nonces.get(key)
+    if (!lastNonce) {
+      log(`Fetching nonce for ${key}`)
+      lastNonce = this._client.getNonceAsync(key)
+    }
+    const nextNonce = lastNonce.then(nonce => nonce + 1)
+    this._nonces.set(key, nextNonce)
+    nextNonce.catch(() => {
+      // Don't cache failures, the next caller should try to fetch the nonce again.
+      if (this._nonces.get(key) === nextNonce) {
+        this._nonces.delete(key)
+      }
+    })
+    return nextNonce
+  }
+
+  /**
+   * Discards the locally tracked nonce so it's fetched from the DAppChain the next time it's needed.
+   * @param key A hex encoded public key, if omitted the nonces of all keys will be discarded.
+   */
+  resync(key?: string) {
+    if (key === undefined) {
+      this._nonces.clear()
+    } else {
+      this._nonces.delete(key)
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import debug from 'debug'
+
+import {
+  Client,
+  ClientEvent,
+  IQueryMiddlewareHandler,
+  IQueryRequest,
+  ITxCommittedEventArgs
+} from './client'
+
+const log = debug('query-cache')
+
+/** Responses to these methods only change when the block height changes. */
+const HEIGHT_SCOPED_METHODS = ['query']
+/**
+ * Responses to these methods rarely change once a non-empty result is returned, so they're kept
+ * across block height changes.
+ */
+const PERSISTENT_METHODS = ['getevmcode', 'resolve']
+
+export interface IQueryCacheStats {
+  /** Number of requests that were answered from the cache. */
+  hits: number
+  /** Number of cacheable requests that had to be sent to the DAppChain. */
+  misses: number
+  /** Number of entries that were dropped to stay within the size limit. */
+  evictions: number
+  /** Number of entries currently in the cache. */
+  size: number
+}
+
+interface ICacheEntry {
+  response: Promise<any>
+  persistent: boolean
+  /** Time (in ms since the epoch) when the entry becomes stale, if not set it never does. */
+  expiresAt?: number
+}
+
+/**
+ * Query middleware that caches the responses to read requests, so that identical requests made
+ * within the same block don't have to be sent to the DAppChain.
+ *
+ * Contract queries are keyed by contract, query, VM type and caller, and are dropped as soon as the
+ * cache finds out the block height has moved. The cache keeps track of the height by polling the
+ * block height of any client it watches, the txs committed by those clients, and the responses to
+ * `Client.getBlockHeightAsync()` that pass through it.
+ * Contract name resolution responses are kept across height changes, but expire after a while in
+ * case the name is registered to another contract. EVM contract code is kept until it's evicted.
+ *
+ * const cache = new QueryCache({ maxEntries: 500 })
+ * cache.watch(client)
+ * client.queryMiddleware.push(cache)
+ *
+ * Individual requests can skip the cache by setting `IQueryOptions.bypassCache`.
+ */
+export class QueryCache implements IQueryMiddlewareHandler {
+  // Entries are kept in least recently used order.
+  private _entries = new Map<string, ICacheEntry>()
+  private _blockHeight?: number
+  private _stats = { hits: 0, misses: 0, evictions: 0 }
+  /** Timers that poll the block height of each watched client. */
+  private _pollTimers = new Map<Client, any>()
+  private _onTxCommitted = (eventArgs: ITxCommittedEventArgs) =>
+    this.setBlockHeight(eventArgs.height)
+
+  /** Maximum number of entries to keep in the cache. */
+  readonly maxEntries: number
+  /**
+   * Maximum number of milliseconds to keep contract query responses for, if not set they're kept
+   * until the block height moves.
+   */
+  readonly maxAge?: number
+  /** Number of milliseconds between block height checks for each watched client. */
+  readonly heightPollInterval: number
+  /** Maximum number of milliseconds to keep contract name resolution responses for. */
+  readonly resolveMaxAge: number
+
+  get blockHeight(): number | undefined {
+    return this._blockHeight
+  }
+
+  get stats(): IQueryCacheStats {
+    return { ...this._stats, size: this._entries.size }
+  }
+
+  /**
+   * @param opts Options object.
+   * @param opts.maxEntries Maximum number of entries to keep in the cache, defaults to 1000.
+   *                        The least recently used entries are evicted first.
+   * @param opts.maxAge Maximum number of milliseconds to keep contract query responses for, even
+   *                    if the cache doesn't find out the block height has moved. Only needed if
+   *                    the cache doesn't watch a client, by default responses are kept until the
+   *                    height moves.
+   * @param opts.resolveMaxAge Maximum number of milliseconds to keep contract name resolution
+   *                           responses for, defaults to 1 minute.
+   * @param opts.heightPollInterval Number of milliseconds between block height checks for each
+   *                                watched client, defaults to 1 second. Zero disables polling,
+   *                                in which case the cache only sees the height move when a
+   *                                watched client commits a tx.
+   */
+  constructor(
+    opts: {
+      maxEntries?: number
+      maxAge?: number
+      resolveMaxAge?: number
+      heightPollInterval?: number
+    } = {}
+  ) {
+    const {
+      maxEntries = 1000,
+      maxAge,
+      resolveMaxAge = 60000, // 1min
+      heightPollInterval = 1000 // 1s
+    } = opts
+    this.maxEntries = maxEntries
+    this.maxAge = maxAge
+    this.resolveMaxAge = resolveMaxAge
+    this.heightPollInterval = heightPollInterval
+  }
+
+  /**
+   * Starts tracking the block height of the given client, by polling it and by looking at the txs
+   * it commits. unwatch() must be called once the client is no longer used.
+   */
+  watch(client: Client) {
+    if (this._pollTimers.has(client)) {
+      return
+    }
+    client.on(ClientEvent.TxCommitted, this._onTxCommitted)
+    this._pollTimers.set(
+      client,
+      this.heightPollInterval > 0
+        ? setInterval(() => this._pollBlockHeight(client), this.heightPollInterval)
+        : null
+    )
+  }
+
+  /**
+   * Stops tracking the block height of the given client.
+   */
+  unwatch(client: Client) {
+    if (!this._pollTimers.has(client)) {
+      return
+    }
+    client.removeListener(ClientEvent.TxCommitted, this._onTxCommitted)
+    const timer = this._pollTimers.get(client)
+    if (timer !== null) {
+      clearInterval(timer)
+    }
+    this._pollTimers.delete(client)
+  }
+
+  /**
+   * Notifies the cache of the current block height, if the height has moved all the cached
+   * contract query responses will be dropped.
+   */
+  setBlockHeight(height: number) {
+    // the height may be returned as a string by the RPC client
+    height = Number(height)
+    if (isNaN(height) || (this._blockHeight !== undefined && height <= this._blockHeight)) {
+      return
+    }
+    log(`Block height moved from ${this._blockHeight} to ${height}`)
+    this._blockHeight = height
+    const staleKeys: string[] = []
+    this._entries.forEach((entry, key) => {
+      if (!entry.persistent) {
+        staleKeys.push(key)
+      }
+    })
+    staleKeys.forEach(key => this._entries.delete(key))
+  }
+
+  /** Drops all cached responses. */
+  clear() {
+    this._entries.clear()
+  }
+
+  /** Resets the hit, miss & eviction counters. */
+  resetStats() {
+    this._stats = { hits: 0, misses: 0, evictions: 0 }
+  }
+
+  Handle(
+    request: Readonly<IQueryRequest>,
+    next: (request: IQueryRequest) => Promise<any>
+  ): Promise<any> {
+    if (request.method === 'getblockheight') {
+      return next(request).then(height => {
+        this.setBlockHeight(height)
+        return height
+      })
+    }
+
+    const persistent = PERSISTENT_METHODS.indexOf(request.method) !== -1
+    if (!persistent && HEIGHT_SCOPED_METHODS.indexOf(request.method) === -1) {
+      return next(request)
+    }
+    if (request.opts && request.opts.bypassCache) {
+      return next(request)
+    }
+
+    const key = `${request.method}:${JSON.stringify(request.params)}`
+    let cached = this._entries.get(key)
+    if (cached && cached.expiresAt !== undefined && cached.expiresAt <= Date.now()) {
+      this._entries.delete(key)
+      cached = undefined
+    }
+    if (cached) {
+      this._stats.hits++
+      // move the entry to the back of the eviction queue
+      this._entries.delete(key)
+      this._entries.set(key, cached)
+      return cached.response
+    }
+
+    this._stats.misses++
+    const entry: ICacheEntry = {
+      response: next(request),
+      persistent,
+      expiresAt: this._getExpiryTime(request.method)
+    }
+    this._set(key, entry)
+    entry.response
+      .then(response => {
+        // An empty response might turn into a non-empty one later on, e.g. when a contract is
+        // deployed, so only non-empty responses are kept around indefinitely.
+        if (persistent && !response) {
+          this._drop(key, entry)
+        }
+      })
+      .catch(() => this._drop(key, entry))
+    return entry.response
+  }
+
+  private _pollBlockHeight(client: Client) {
+    client
+      .getBlockHeightAsync()
+      .then(height => this.setBlockHeight(height))
+      // the next poll will try again
+      .catch(err => log(`Failed to poll the block height: ${err}`))
+  }
+
+  private _getExpiryTime(method: string): number | undefined {
+    if (method === 'resolve') {
+      return Date.now() + this.resolveMaxAge
+    }
+    if (HEIGHT_SCOPED_METHODS.indexOf(method) !== -1 && this.maxAge !== undefined) {
+      return Date.now() + this.maxAge
+    }
+    return undefined
+  }
+
+  private _set(key: string, entry: ICacheEntry) {
+    this._entries.set(key, entry)
+    while (this._entries.size > this.maxEntries) {
+      const oldestKey = this._entries.keys().next().value
+      this._entries.delete(oldestKey)
+      this._stats.evictions++
+    }
+  }
+
+  private _drop(key: string, entry: ICacheEntry) {
+    // the entry may have been replaced in the meantime
+    if (this._entries.get(key) === entry) {
+      this._entries.delete(key)
+    }
+  }
+}
@@ -0,0 +1,496 @@
+import EventEmitter from 'events'
+import debug from 'debug'
+
+import {
+  IJSONRPCClient,
+  IJSONRPCBatchRequest,
+  IJSONRPCBatchResult,
+  IRequestOptions,
+  RPCClientEvent,
+  ConnectionState,
+  getConnectionState,
+  sendBatchWithFallbackAsync
+} from './internal/json-rpc-client'
+import { RPCMetrics, IRPCStats } from './internal/rpc-metrics'
+import { RPCError, TimeoutError, CancelledError } from './errors'
+import { delayAsync } from './cancellation'
+
+const log = debug('recording-rpc-client')
+
+/** Kinds of records written by RecordingRPCClient. */
+export enum RPCRecordType {
+  /** First record of a session. */
+  Start = 'start',
+  Request = 'request',
+  Response = 'response',
+  BatchRequest = 'batchRequest',
+  BatchResponse = 'batchResponse',
+  /** Event message received from the DAppChain. */
+  Event = 'event'
+}
+
+/** Error in a form that can be written to JSON, and turned back into an equivalent error. */
+export interface ISerializedError {
+  name: string
+  message: string
+  code?: any
+  data?: any
+}
+
+export interface ISerializedBatchResult {
+  result?: any
+  error?: ISerializedError
+}
+
+/** A single line of a recorded RPC session. */
+export interface IRPCRecord {
+  type: RPCRecordType
+  /** Number of milliseconds since the recording started. */
+  time: number
+  /** Sequence number that links a response to its request. */
+  seq?: number
+  /** URL of the recorded client, only set on the start record. */
+  url?: string
+  method?: string
+  params?: any
+  requests?: IJSONRPCBatchRequest[]
+  result?: any
+  results?: ISerializedBatchResult[]
+  /** Error the request failed with, a batch with an error has no results. */
+  error?: ISerializedError
+  /** Event message, only set on event records. */
+  message?: any
+}
+
+/** Events that are passed through as is from the wrapped client, event messages aren't. */
+const FORWARDED_EVENTS = [
+  RPCClientEvent.Error,
+  RPCClientEvent.Connected,
+  RPCClientEvent.Disconnected,
+  RPCClientEvent.Subscribed,
+  RPCClientEvent.EvmSubscriptionLost,
+  RPCClientEvent.EventPollError,
+  RPCClientEvent.ConnectionStateChanged,
+  RPCClientEvent.RequestCompleted
+]
+
+function serializeError(err: any): ISerializedError {
+  if (!err) {
+    return { name: 'Error', message: String(err) }
+  }
+  const serialized: ISerializedError = {
+    name: err.name || 'Error',
+    message: err.message !== undefined ? err.message : String(err)
+  }
+  if (err.code !== undefined) {
+    serialized.code = err.code
+  }
+  if (err.data !== undefined) {
+    serialized.data = err.data
+  }
+  return serialized
+}
+
+function deserializeError(serialized: ISerializedError): Error {
+  let err: any
+  switch (serialized.name) {
+    case 'RPCError':
+      err = new RPCError(serialized.code, '', serialized.data)
+      break
+    case 'TimeoutError':
+      err = new TimeoutError(serialized.message)
+      break
+    case 'CancelledError':
+      err = new CancelledError(serialized.message)
+      break
+    default:
+      err = new Error(serialized.message)
+      err.name = serialized.name
+      if (serialized.code !== undefined) {
+        err.code = serialized.code
+      }
+      if (serialized.data !== undefined) {
+        err.data = serialized.data
+      }
+  }
+  err.message = serialized.message
+  return err
+}
+
+/**
+ * Wraps an RPC client and records every request, response, and event message that passes through
+ * it. Each record is written as a single line of JSON, so the session can be saved to a JSON-lines
+ * file and replayed later via ReplayRPCClient.
+ *
+ * import { RecordingRPCClient } from 'loom-js/dist/testing'
+ *
+ * // in Node
+ * const out = fs.createWriteStream('session.jsonl')
+ * const recorder = new RecordingRPCClient(createJSONRPCClient({ protocols }), line =>
+ *   out.write(line)
+ * )
+ * const client = new Client('default', recorder)
+ */
+export class RecordingRPCClient extends EventEmitter implements IJSONRPCClient {
+  private _startTime: number = Date.now()
+  private _nextSeq: number = 0
+
+  get url(): string {
+    return this._client.url
+  }
+
+  get requestTimeout(): number {
+    return this._client.requestTimeout
+  }
+
+  set requestTimeout(timeout: number) {
+    this._client.requestTimeout = timeout
+  }
+
+  get isSubscribed(): boolean {
+    return this._client.isSubscribed
+  }
+
+  get connectionState(): ConnectionState {
+    return getConnectionState(this._client)
+  }
+
+  /**
+   * @param _client Client to record the traffic of.
+   * @param _write Invoked with each record, the record is JSON encoded and terminated by a newline.
+   */
+  constructor(private _client: IJSONRPCClient, private _write: (line: string) => void) {
+    super()
+    this._record({ type: RPCRecordType.Start, time: 0, url: _client.url })
+
+    FORWARDED_EVENTS.forEach(event =>
+      _client.on(event, (...args: any[]) => this.emit(event, ...args))
+    )
+    // only subscribe to events from the wrapped client while someone's interested in them
+    const onMessage = (url: string, msg: any) => {
+      this._record({ type: RPCRecordType.Event, time: this._now(), url, message: msg })
+      this.emit(RPCClientEvent.Message, url, msg)
+    }
+    this.on('newListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        _client.on(RPCClientEvent.Message, onMessage)
+      }
+    })
+    this.on('removeListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        _client.removeListener(RPCClientEvent.Message, onMessage)
+      }
+    })
+  }
+
+  disconnect() {
+    this._client.disconnect()
+  }
+
+  reconnect() {
+    if (this._client.reconnect) {
+      this._client.reconnect()
+    }
+  }
+
+  ensureConnectionAsync(): Promise<void> {
+    return this._client.ensureConnectionAsync()
+  }
+
+  addTopics(topics: string[]) {
+    if (this._client.addTopics) {
+      this._client.addTopics(topics)
+    }
+  }
+
+  removeTopics(topics: string[]) {
+    if (this._client.removeTopics) {
+      this._client.removeTopics(topics)
+    }
+  }
+
+  async sendAsync<T>(method: string, params: object | any[], opts?: IRequestOptions): Promise<T> {
+    const seq = this._nextSeq++
+    this._record({ type: RPCRecordType.Request, time: this._now(), seq, method, params })
+    try {
+      const result = await this._client.sendAsync<T>(method, params, opts)
+      this._record({ type: RPCRecordType.Response, time: this._now(), seq, result })
+      return result
+    } catch (err) {
+      this._record({
+        type: RPCRecordType.Response,
+        time: this._now(),
+        seq,
+        error: serializeError(err)
+      })
+      throw err
+    }
+  }
+
+  async sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    const seq = this._nextSeq++
+    this._record({ type: RPCRecordType.BatchRequest, time: this._now(), seq, requests })
+    try {
+      const results = await sendBatchWithFallbackAsync(this._client, requests)
+      this._record({
+        type: RPCRecordType.BatchResponse,
+        time: this._now(),
+        seq,
+        results: results.map(
+          ({ result, error }) => (error ? { error: serializeError(error) } : { result })
+        )
+      })
+      return results
+    } catch (err) {
+      this._record({
+        type: RPCRecordType.BatchResponse,
+        time: this._now(),
+        seq,
+        error: serializeError(err)
+      })
+      throw err
+    }
+  }
+
+  getStats(): IRPCStats {
+    return this._client.getStats ? this._client.getStats() : {}
+  }
+
+  resetStats() {
+    if (this._client.resetStats) {
+      this._client.resetStats()
+    }
+  }
+
+  private _now(): number {
+    return Date.now() - this._startTime
+  }
+
+  private _record(record: IRPCRecord) {
+    try {
+      this._write(JSON.stringify(record) + '\n')
+    } catch (err) {
+      // recording should never break the app
+      log(`Failed to write ${record.type} record: ${err}`)
+    }
+  }
+}
+
+/**
+ * Plays back a session recorded by RecordingRPCClient, can be passed to `Client` in place of a real
+ * RPC client to reproduce the session offline.
+ *
+ * Requests are matched to the recorded ones by method, in the order they were recorded. Each
+ * response is delivered after the same delay as the recorded one, and each event message is
+ * delivered the same amount of time after the response that preceded it in the recording.
+ *
+ * // in Node
+ * const replay = ReplayRPCClient.fromJSONLines(fs.readFileSync('session.jsonl', 'utf8'))
+ * const client = new Client('default', replay)
+ */
+export class ReplayRPCClient extends EventEmitter implements IJSONRPCClient {
+  private _requests: IRPCRecord[] = []
+  private _responses = new Map<number, IRPCRecord>()
+  // events to deliver after each response, keyed by response seq (-1 for the start of the session)
+  private _events = new Map<number, Array<{ delay: number; record: IRPCRecord }>>()
+  private _timers: any[] = []
+  private _metrics = new RPCMetrics()
+  private _isSubscribed: boolean = false
+
+  readonly url: string
+  requestTimeout: number
+  /**
+   * Multiplier applied to the recorded delays, e.g. 0.5 replays the session at twice the recorded
+   * speed, zero replays it as quickly as possible.
+   */
+  timeScale: number
+  /** If `true` requests with different params to the recorded ones will fail. */
+  strict: boolean
+
+  get isSubscribed(): boolean {
+    return this._isSubscribed
+  }
+
+  get connectionState(): ConnectionState {
+    return ConnectionState.Open
+  }
+
+  /** Number of recorded requests that haven't been replayed yet. */
+  get remainingRequests(): number {
+    return this._requests.length
+  }
+
+  /**
+   * Parses a recorded session.
+   * @param text Contents of a JSON-lines file written by RecordingRPCClient.
+   */
+  static fromJSONLines(
+    text: string,
+    opts?: { timeScale?: number; strict?: boolean }
+  ): ReplayRPCClient {
+    const records = text
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as IRPCRecord)
+    return new ReplayRPCClient(records, opts)
+  }
+
+  /**
+   * @param records Records of the session to replay.
+   * @param opts Options object.
+   * @param opts.timeScale Multiplier applied to the recorded delays, defaults to 1.
+   * @param opts.strict If `true` requests with different params to the recorded ones will fail,
+   *                    defaults to `false` since signed txs will differ between sessions.
+   */
+  constructor(records: IRPCRecord[], opts: { timeScale?: number; strict?: boolean } = {}) {
+    super()
+    const { timeScale = 1, strict = false } = opts
+    const start = records.find(record => record.type === RPCRecordType.Start)
+    this.url = (start && start.url) || 'replay://dappchain'
+    this.requestTimeout = 0
+    this.timeScale = timeScale
+    this.strict = strict
+
+    let anchor = { seq: -1, time: 0 }
+    records.forEach(record => {
+      switch (record.type) {
+        case RPCRecordType.Request:
+        case RPCRecordType.BatchRequest:
+          this._requests.push(record)
+          break
+        case RPCRecordType.Response:
+        case RPCRecordType.BatchResponse:
+          this._responses.set(record.seq!, record)
+          anchor = { seq: record.seq!, time: record.time }
+          break
+        case RPCRecordType.Event: {
+          const events = this._events.get(anchor.seq) || []
+          events.push({ delay: record.time - anchor.time, record })
+          this._events.set(anchor.seq, events)
+          break
+        }
+      }
+    })
+
+    // like WSRPCClient, subscribe to events as soon as someone's interested in them
+    this.on('newListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        this._setSubscribed(true)
+      }
+    })
+    this.on('removeListener', (event: string) => {
+      if (event === RPCClientEvent.Message && this.listenerCount(event) === 0) {
+        this._setSubscribed(false)
+      }
+    })
+    this._scheduleEvents(-1)
+  }
+
+  /** Stops delivering events. */
+  disconnect() {
+    this._timers.forEach(timer => clearTimeout(timer))
+    this._timers = []
+    this.removeAllListeners()
+  }
+
+  reconnect() {
+    // no connection, so do nothing
+  }
+
+  ensureConnectionAsync(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  addTopics(topics: string[]) {
+    // the recorded events were already filtered by topic, so do nothing
+  }
+
+  removeTopics(topics: string[]) {
+    // the recorded events were already filtered by topic, so do nothing
+  }
+
+  sendAsync<T>(method: string, params: object | any[], opts: IRequestOptions = {}): Promise<T> {
+    return this._metrics.measureAsync(
+      method,
+      async () => {
+        const request = this._takeRequest(RPCRecordType.Request, method, params)
+        const response = await this._getResponseAsync(request, opts)
+        if (response.error) {
+          throw deserializeError(response.error)
+        }
+        return response.result
+      },
+      (method, latency, err) =>
+        this.emit(RPCClientEvent.RequestCompleted, this.url, method, latency, err)
+    )
+  }
+
+  async sendBatchAsync(requests: IJSONRPCBatchRequest[]): Promise<IJSONRPCBatchResult[]> {
+    const request = this._takeRequest(RPCRecordType.BatchRequest, 'batch', requests)
+    const response = await this._getResponseAsync(request)
+    if (response.error) {
+      throw deserializeError(response.error)
+    }
+    return response.results!.map(
+      ({ result, error }) => (error ? { error: deserializeError(error) } : { result })
+    )
+  }
+
+  getStats(): IRPCStats {
+    return this._metrics.getStats()
+  }
+
+  resetStats() {
+    this._metrics.reset()
+  }
+
+  /** Finds the first recorded request that hasn't been replayed yet and matches the given one. */
+  private _takeRequest(type: RPCRecordType, method: string, params: any): IRPCRecord {
+    const index = this._requests.findIndex(
+      record =>
+        record.type === type && (type === RPCRecordType.BatchRequest || record.method === method)
+    )
+    if (index === -1) {
+      throw new Error(`[ReplayRPCClient] No recorded request left for ${method}`)
+    }
+    const [record] = this._requests.splice(index, 1)
+    const recordedParams = type === RPCRecordType.BatchRequest ? record.requests : record.params
+    if (this.strict && JSON.stringify(recordedParams) !== JSON.stringify(params)) {
+      throw new Error(`[ReplayRPCClient] Params of ${method} don't match the recorded ones`)
+    }
+    return record
+  }
+
+  private async _getResponseAsync(request: IRPCRecord, opts: IRequestOptions = {}) {
+    const response = this._responses.get(request.seq!)
+    if (!response) {
+      // the session ended before the request completed
+      throw new TimeoutError(`[ReplayRPCClient] No recorded response for ${request.method}`)
+    }
+    await delayAsync((response.time - request.time) * this.timeScale, opts.cancellationToken)
+    this._scheduleEvents(response.seq!)
+    return response
+  }
+
+  private _scheduleEvents(seq: number) {
+    const events = this._events.get(seq)
+    if (!events) {
+      return
+    }
+    this._events.delete(seq)
+    events.forEach(({ delay, record }) => {
+      const timer = setTimeout(() => {
+        this._timers.splice(this._timers.indexOf(timer), 1)
+        if (this._isSubscribed) {
+          this.emit(RPCClientEvent.Message, this.url, record.message)
+        }
+      }, delay * this.timeScale)
+      this._timers.push(timer)
+    })
+  }
+
+  private _setSubscribed(isSubscribed: boolean) {
+    this._isSubscribed = isSubscribed
+    this.emit(RPCClientEvent.Subscribed, this.url, isSubscribed)
+  }
+}
@@ -2,15 +2,42 @@ import { JSONRPCProtocol, IJSONRPCClient } from './internal/json-rpc-client'
 import { WSRPCClient } from './internal/ws-rpc-client'
 import { HTTPRPCClient } from './internal/http-rpc-client'
 import { DualRPCClient } from './internal/dual-rpc-client'
+import { PooledRPCClient, PoolRoutingStrategy } from './internal/pooled-rpc-client'
+import { IRetryPolicy } from './internal/retry-policy'
+import { IRPCAuthOptions } from './internal/rpc-auth'
+import { IRateLimitOptions } from './internal/rate-limiter'
 
-export interface IJSONRPCProtocolOptions {
+/**
+ * Endpoint options, the auth options (static headers, token provider) apply to this endpoint only.
+ */
+export interface IJSONRPCProtocolOptions extends IRPCAuthOptions {
   url: string
   reconnectInterval?: number
   maxReconnects?: number
+  /** Number of milliseconds between WebSocket heartbeats, heartbeats are disabled by default. */
+  heartbeatInterval?: number
+  /** Number of unanswered heartbeats after which the WebSocket connection is reestablished. */
+  maxMissedHeartbeats?: number
+  /**
+   * Number of milliseconds between polls for new events via HTTP, polling is disabled by default.
+   * Only used when events are received from an HTTP endpoint, requires `eventPollMethod` to be set.
+   */
+  eventPollInterval?: number
+  /**
+   * RPC method to poll for events with, it's sent the `fromBlock` & `toBlock` heights (both
+   * inclusive) of a range of blocks, and must return the base64 encoded EventDataList of the
+   * events emitted in those blocks.
+   */
+  eventPollMethod?: string
 }
 
 /**
  * Creates an RPC client for communicating with a Loom DAppChain based on the specified options.
+ *
+ * If a single HTTP and a single WebSocket URL are specified requests will be sent via HTTP, and
+ * events will be received via WebSocket. If more endpoints are specified requests will be spread
+ * across all of them, and events will be received from the first one.
+ *
  * @param opts Options object
  * @param opts.protocols
  * @param opts.autoConnect If `true` the client will automatically connect after being created,
@@ -18,54 +45,151 @@ export interface IJSONRPCProtocolOptions {
  * @param opts.requestTimeout Maximum number of milliseconds the client should wait for a request
  *                            to receive a response.
  * @param opts.generateRequestId Can be set to override the default JSON-RPC message ID generator.
+ * @param opts.autoBatch If `true` requests made within the same tick will be sent to HTTP endpoints
+ *                       in a single JSON-RPC batch, defaults to `false`.
+ * @param opts.maxBatchSize Maximum number of requests to send in a single batch when `autoBatch`
+ *                          is enabled.
+ * @param opts.routing Determines which endpoint each request is sent to when there are multiple
+ *                     endpoints, defaults to `PoolRoutingStrategy.RoundRobin`.
+ * @param opts.maxFailures Number of failed requests in a row after which an endpoint is skipped.
+ * @param opts.coolDown Number of milliseconds to skip an unhealthy endpoint for.
+ * @param opts.retryPolicy If set requests that fail because of network errors, timeouts, or
+ *                         server errors will be resent according to this policy.
+ * @param opts.rateLimit Limits the rate at which requests are sent to each endpoint, and the number
+ *                       of requests that can be waiting for a response from each endpoint.
  */
 export function createJSONRPCClient(opts: {
   protocols: IJSONRPCProtocolOptions[]
   autoConnect?: boolean
   requestTimeout?: number
   generateRequestId?: (method: string, params: object | any[]) => string
+  autoBatch?: boolean
+  maxBatchSize?: number
+  routing?: PoolRoutingStrategy
+  maxFailures?: number
+  coolDown?: number
+  retryPolicy?: IRetryPolicy
+  rateLimit?: IRateLimitOptions
 }): IJSONRPCClient {
-  const { protocols, autoConnect = true, requestTimeout, generateRequestId } = opts
-  if (protocols.length === 1) {
-    const { url, ...otherOpts } = protocols[0]
-    const protocol = selectProtocol(url)
-    if (protocol === JSONRPCProtocol.HTTP) {
-      return new HTTPRPCClient(url, { requestTimeout, generateRequestId })
-    } else if (protocol === JSONRPCProtocol.WS) {
-      return new WSRPCClient(url, { autoConnect, requestTimeout, generateRequestId, ...otherOpts })
+  const {
+    protocols,
+    autoConnect = true,
+    requestTimeout,
+    generateRequestId,
+    autoBatch,
+    maxBatchSize,
+    routing,
+    maxFailures,
+    coolDown,
+    retryPolicy,
+    rateLimit
+  } = opts
+  const createClient = (protocolOpts: IJSONRPCProtocolOptions): IJSONRPCClient => {
+    const {
+      url,
+      headers,
+      getAuthTokenAsync,
+      authTokenQueryParam,
+      eventPollInterval,
+      eventPollMethod,
+      ...otherOpts
+    } = protocolOpts
+    const auth = getAuthOptions(protocolOpts)
+    if (selectProtocol(url) === JSONRPCProtocol.HTTP) {
+      return new HTTPRPCClient(url, {
+        eventPollInterval,
+        eventPollMethod,
+        requestTimeout,
+        generateRequestId,
+        autoBatch,
+        maxBatchSize,
+        retryPolicy,
+        auth,
+        rateLimit
+      })
     }
+    return new WSRPCClient(url, {
+      autoConnect,
+      requestTimeout,
+      generateRequestId,
+      retryPolicy,
+      auth,
+      rateLimit,
+      ...otherOpts
+    })
+  }
+  if (protocols.length === 1) {
+    return createClient(protocols[0])
   } else if (protocols.length === 2) {
     const p1 = selectProtocol(protocols[0].url)
     const p2 = selectProtocol(protocols[1].url)
     if (p1 === JSONRPCProtocol.HTTP && p2 === JSONRPCProtocol.WS) {
-      const { reconnectInterval, maxReconnects } = protocols[1]
+      const {
+        reconnectInterval,
+        maxReconnects,
+        heartbeatInterval,
+        maxMissedHeartbeats
+      } = protocols[1]
       return new DualRPCClient({
+        auth: getAuthOptions(protocols[1]),
+        httpAuth: getAuthOptions(protocols[0]),
         httpUrl: protocols[0].url,
         wsUrl: protocols[1].url,
         autoConnect,
         protocol: p1,
         requestTimeout,
         generateRequestId,
+        autoBatch,
+        maxBatchSize,
+        retryPolicy,
+        rateLimit,
         reconnectInterval,
-        maxReconnects
+        maxReconnects,
+        heartbeatInterval,
+        maxMissedHeartbeats
       })
     } else if (p2 === JSONRPCProtocol.HTTP && p1 === JSONRPCProtocol.WS) {
-      const { reconnectInterval, maxReconnects } = protocols[0]
+      const {
+        reconnectInterval,
+        maxReconnects,
+        heartbeatInterval,
+        maxMissedHeartbeats
+      } = protocols[0]
       return new DualRPCClient({
+        auth: getAuthOptions(protocols[0]),
+        httpAuth: getAuthOptions(protocols[1]),
         httpUrl: protocols[1].url,
         wsUrl: protocols[0].url,
         autoConnect,
         protocol: p1,
         requestTimeout,
         generateRequestId,
+        autoBatch,
+        maxBatchSize,
+        retryPolicy,
+        rateLimit,
         reconnectInterval,
-        maxReconnects
+        maxReconnects,
+        heartbeatInterval,
+        maxMissedHeartbeats
       })
     }
   }
+  if (protocols.length > 1) {
+    return new PooledRPCClient(protocols.map(createClient), {
+      strategy: routing,
+      maxFailures,
+      coolDown
+    })
+  }
   throw new Error('Failed to create JSON-RPC client: invalid protocol configuration')
 }
 
+function getAuthOptions(opts: IJSONRPCProtocolOptions): IRPCAuthOptions {
+  const { headers, getAuthTokenAsync, authTokenQueryParam } = opts
+  return { headers, getAuthTokenAsync, authTokenQueryParam }
+}
+
 function selectProtocol(url: string): JSONRPCProtocol {
   if (url.startsWith('http://') || url.startsWith('https://')) {
     return JSONRPCProtocol.HTTP
@@ -0,0 +1,128 @@
+import axios from 'axios'
+
+import {
+  sign,
+  publicKeyFromPrivateKey,
+  B64ToUint8Array,
+  Uint8ArrayToB64,
+  bufferToProtobufBytes,
+  PUBLIC_KEY_LENGTH,
+  SIGNATURE_LENGTH
+} from './crypto-utils'
+
+/**
+ * Signs data on behalf of a single ed25519 key pair, without necessarily exposing the private key
+ * to the caller, e.g. the private key may be held by a separate signing service or an HSM.
+ */
+export interface ISigner {
+  /** @returns 32-byte public key that corresponds to the private key the signer signs with. */
+  getPublicKeyAsync(): Promise<Uint8Array>
+  /**
+   * Signs the given data.
+   * @param data Data to sign.
+   * @returns 64-byte ed25519 signature.
+   */
+  signAsync(data: Uint8Array): Promise<Uint8Array>
+}
+
+/**
+ * Signs data with a private key that's held in memory.
+ */
+export class LocalSigner implements ISigner {
+  private _publicKey: Uint8Array
+
+  /**
+   * @param privateKey 64-byte private key to sign with.
+   */
+  constructor(readonly privateKey: Uint8Array) {
+    this._publicKey = publicKeyFromPrivateKey(privateKey)
+  }
+
+  getPublicKeyAsync(): Promise<Uint8Array> {
+    return Promise.resolve(this._publicKey)
+  }
+
+  signAsync(data: Uint8Array): Promise<Uint8Array> {
+    return Promise.resolve(sign(data, this.privateKey))
+  }
+}
+
+export interface IRemoteSignerOptions {
+  /** Headers to send with every request, e.g. to authenticate with the signing service. */
+  headers?: { [name: string]: string }
+  /** Maximum number of milliseconds to wait for the signing service to respond. */
+  timeout?: number
+}
+
+/**
+ * Signs data by sending it to a signing service over HTTP.
+ *
+ * The signing service must respond to:
+ * - `GET <url>/publickey` with `{ "publicKey": "<base64 public key>" }`
+ * - `POST <url>/sign` with a `{ "data": "<base64 data>" }` body, with
+ *   `{ "signature": "<base64 signature>" }`
+ */
+export class RemoteSigner implements ISigner {
+  private _publicKey?: Promise<Uint8Array>
+
+  /**
+   * @param url Base URL of the signing service.
+   * @param _opts Options for the requests sent to the signing service.
+   */
+  constructor(public url: string, private _opts: IRemoteSignerOptions = {}) {}
+
+  /**
+   * Fetches the public key from the signing service, the key is cached after the first successful
+   * request.
+   */
+  getPublicKeyAsync(): Promise<Uint8Array> {
+    if (!this._publicKey) {
+      this._publicKey = this._fetchPublicKeyAsync()
+      // don't cache failures, so the next call can try again
+      this._publicKey.catch(() => (this._publicKey = undefined))
+    }
+    return this._publicKey
+  }
+
+  async signAsync(data: Uint8Array): Promise<Uint8Array> {
+    const resp = await axios.post<{ signature?: string }>(
+      `${this.url}/sign`,
+      { data: Uint8ArrayToB64(data) },
+      this._getRequestConfig()
+    )
+    return decodeBytes(resp.data.signature, SIGNATURE_LENGTH, 'signature')
+  }
+
+  private async _fetchPublicKeyAsync(): Promise<Uint8Array> {
+    const resp = await axios.get<{ publicKey?: string }>(
+      `${this.url}/publickey`,
+      this._getRequestConfig()
+    )
+    return decodeBytes(resp.data.publicKey, PUBLIC_KEY_LENGTH, 'public key')
+  }
+
+  private _getRequestConfig() {
+    return { headers: this._opts.headers, timeout: this._opts.timeout }
+  }
+}
+
+/**
+ * Wraps the given private key in a `LocalSigner`, signers are returned as is.
+ * @param privateKeyOrSigner 64-byte private key, or a signer.
+ */
+export function toSigner(privateKeyOrSigner: Uint8Array | ISigner): ISigner {
+  return privateKeyOrSigner instanceof Uint8Array
+    ? new LocalSigner(privateKeyOrSigner)
+    : privateKeyOrSigner
+}
+
+function decodeBytes(b64: string | undefined, length: number, name: string): Uint8Array {
+  if (typeof b64 !== 'string') {
+    throw new Error(`Signing service response is missing the ${name}`)
+  }
+  const bytes = bufferToProtobufBytes(B64ToUint8Array(b64))
+  if (bytes.length !== length) {
+    throw new Error(`Signing service returned a ${bytes.length}-byte ${name}, expected ${length}`)
+  }
+  return bytes
+}
@@ -0,0 +1,18 @@
+// Test tooling, kept out of the main entry point so it doesn't end up in browser bundles.
+// Import it from 'loom-js/dist/testing'.
+export {
+  FakeDAppChainClient,
+  FakeContractMethod,
+  FakeFaultKind,
+  IFakeContract,
+  IFakeContractContext,
+  IFakeFault
+} from './fake-dappchain-client'
+export {
+  RecordingRPCClient,
+  ReplayRPCClient,
+  RPCRecordType,
+  IRPCRecord,
+  ISerializedError,
+  ISerializedBatchResult
+} from './recording-rpc-client'
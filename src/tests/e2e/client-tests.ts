@@ -8,7 +8,10 @@ import {
   LocalAddress,
   NonceTxMiddleware,
   SignedTxMiddleware,
-  CryptoUtils
+  CryptoUtils,
+  BroadcastTxMode,
+  createDefaultTxMiddleware,
+  createContractMethodCallTx
 } from '../../index'
 import { MapEntry } from '../tests_pb'
 import { isInvalidTxNonceError } from '../../client'
@@ -129,3 +132,35 @@ test('Client nonce retry strategy', async t => {
   }
   t.end()
 })
+
+test('Client tx submission without waiting for commit', async t => {
+  let client: Client | null = null
+  try {
+    const privKey = CryptoUtils.generatePrivateKey()
+    const pubKey = CryptoUtils.publicKeyFromPrivateKey(privKey)
+    client = createTestClient()
+    client.txMiddleware = createDefaultTxMiddleware(client, privKey)
+
+    const contractAddr = await client.getContractAddressAsync('BluePrint')
+    if (!contractAddr) {
+      throw new Error('Failed to resolve contract address')
+    }
+    const callerAddr = new Address(client.chainId, LocalAddress.fromPublicKey(pubKey))
+
+    const msg = new MapEntry()
+    msg.setKey('123')
+    msg.setValue('456')
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'SetMsg', msg)
+
+    const txHash = await client.sendTxAsync(tx, { mode: BroadcastTxMode.Sync })
+    t.ok(txHash, 'sendTxAsync() should return the tx hash')
+    await client.waitForTxAsync(txHash, { timeout: 10000, confirmations: 2 })
+    t.pass('waitForTxAsync() should resolve once the tx is committed')
+  } catch (err) {
+    t.fail(err)
+  }
+  if (client) {
+    client.disconnect()
+  }
+  t.end()
+})
@@ -57,6 +57,22 @@ async function testContractCalls(t: test.Test, createClient: () => Client) {
     t.equal(retVal.getValue(), msgValue, 'Value in return value must match the one that was sent')
   }
 
+  const callResult = await contract.callWithResultAsync<MapEntry>(
+    'SetMsgEcho',
+    msg,
+    new MapEntry()
+  )
+  t.ok(callResult.hash, 'callWithResultAsync() result must include the tx hash')
+  t.ok(callResult.height > 0, 'callWithResultAsync() result must include the block height')
+  t.ok(callResult.output, 'callWithResultAsync() result must include the return value')
+  if (callResult.output) {
+    t.equal(callResult.output.getKey(), msgKey, 'Key in return value must match the one sent')
+  }
+  callResult.events.forEach(event => {
+    t.ok(event.contractAddress.equals(contract.address), 'Event must come from the contract')
+    t.equal(event.blockHeight, callResult.height.toString(), 'Event must be from the tx block')
+  })
+
   msg.setValue('')
   const result = await contract.staticCallAsync<MapEntry>('GetMsg', msg, new MapEntry())
   t.ok(result, "staticCallAsync('GetMsg', ...) must return a value")
@@ -6,7 +6,7 @@ import { getTestUrls } from '../helpers'
 import { DualRPCClient } from '../../internal/dual-rpc-client'
 
 function closeSocket(client: WSRPCClient) {
-  ;(client as any)._client.close(3000)
+  ;(client as any)._connection.close(3000)
 }
 
 function ensureSubscriptionAsync(client: WSRPCClient): Promise<void> {
@@ -1,4 +1,8 @@
-import { Client, createJSONRPCClient } from '../index'
+import EventEmitter from 'events'
+
+import { Client, createJSONRPCClient, IJSONRPCClient } from '../index'
+import { IRequestOptions } from '../internal/json-rpc-client'
+import { WSRPCClient } from '../internal/ws-rpc-client'
 
 export function getTestUrls() {
   return {
@@ -37,3 +41,97 @@ export function createTestHttpWSClient(): Client {
   })
   return new Client('default', writer, reader)
 }
+
+export interface IStubRequest {
+  method: string
+  params: any
+  opts: IRequestOptions
+}
+
+/**
+ * Answers the requests sent to a StubRPCClient, may return the result or a promise of the result,
+ * and may throw to fail the request.
+ */
+export type StubRequestHandler = (method: string, params: any, opts: IRequestOptions) => any
+
+/**
+ * RPC client for unit tests that answers requests with the given handler instead of sending them
+ * to a node, and records the requests it receives. Only implements the required members of
+ * IJSONRPCClient.
+ */
+export class StubRPCClient extends EventEmitter implements IJSONRPCClient {
+  requestTimeout: number = 1000
+  isSubscribed: boolean = false
+  /** Requests received by the stub, in the order they were received. */
+  requests: IStubRequest[] = []
+
+  constructor(public url: string, private _handler: StubRequestHandler) {
+    super()
+  }
+
+  disconnect() {
+    this.removeAllListeners()
+  }
+
+  ensureConnectionAsync(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  sendAsync<T>(method: string, params: any, opts: IRequestOptions = {}): Promise<T> {
+    this.requests.push({ method, params, opts })
+    try {
+      return Promise.resolve<T>(this._handler(method, params, opts))
+    } catch (err) {
+      return Promise.reject(err)
+    }
+  }
+}
+
+/**
+ * Stands in for the WSConnection WSRPCClient creates for each connection, it never actually
+ * connects.
+ */
+export class StubWSConnection extends EventEmitter {
+  ready: boolean = false
+  /** Code the connection was closed with, if it was closed. */
+  closeCode?: number
+
+  constructor(
+    public url: string,
+    public headers: { [name: string]: string },
+    public call: (method: string, params: any, timeout: number) => Promise<any>
+  ) {
+    super()
+  }
+
+  open() {
+    this.ready = true
+    this.emit('open')
+  }
+
+  close(code: number) {
+    this.closeCode = code
+    if (this.ready) {
+      this.ready = false
+      this.emit('close', code)
+    }
+  }
+}
+
+/**
+ * Makes the given client connect via StubWSConnection instead of a web socket.
+ * @param call Answers the requests sent via each connection.
+ * @returns The stubs created for each connection, in the order they were created.
+ */
+export function stubWSConnections(
+  client: WSRPCClient,
+  call: (method: string, params: any, timeout: number) => Promise<any> = () => Promise.resolve()
+): StubWSConnection[] {
+  const stubs: StubWSConnection[] = []
+  ;(client as any)._createConnection = (url: string, headers: { [name: string]: string }) => {
+    const stub = new StubWSConnection(url, headers, call)
+    stubs.push(stub)
+    return stub
+  }
+  return stubs
+}
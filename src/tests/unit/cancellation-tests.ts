@@ -0,0 +1,143 @@
+import test from 'tape'
+
+import {
+  Client,
+  ClientEvent,
+  ITxFailedEventArgs,
+  TxFailureReason,
+  CancellationToken,
+  CancelledError
+} from '../../index'
+import { runCancellableAsync, delayAsync } from '../../cancellation'
+import { MapEntry } from '../tests_pb'
+import { StubRPCClient } from '../helpers'
+
+/**
+ * Creates an RPC client that never responds to requests, so they can only complete by being
+ * cancelled.
+ */
+function createStubRPCClient() {
+  const pending = { count: 0 }
+  const rpcClient = new StubRPCClient('stub://cancel', (method, params, opts) => {
+    pending.count++
+    return runCancellableAsync(
+      opts.cancellationToken,
+      () =>
+        new Promise(() => {
+          // never settles, so the request can only complete by being cancelled
+        }),
+      () => pending.count--
+    )
+  })
+  return { rpcClient, pending }
+}
+
+test('CancellationToken', async t => {
+  try {
+    const token = new CancellationToken()
+    let calls = 0
+    const unregister = token.onCancelled(() => calls++)
+    token.onCancelled(() => calls++)
+    unregister()
+    t.doesNotThrow(() => token.throwIfCancelled(), 'Should not throw before being cancelled')
+    token.cancel()
+    token.cancel()
+    t.ok(token.isCancelled, 'Should be cancelled')
+    t.equal(calls, 1, 'Should only notify registered listeners, once')
+    t.throws(() => token.throwIfCancelled(), CancelledError, 'Should throw once cancelled')
+    token.onCancelled(() => calls++)
+    t.equal(calls, 2, 'Should notify listeners registered after cancellation right away')
+
+    const result = await runCancellableAsync(new CancellationToken(), () => Promise.resolve(42))
+    t.equal(result, 42, 'Should resolve with the result of an operation that is not cancelled')
+
+    let cleanedUp = false
+    const slowToken = new CancellationToken()
+    const slowOp = runCancellableAsync(
+      slowToken,
+      () =>
+        new Promise<void>(() => {
+          // never settles, so the operation can only complete by being cancelled
+        }),
+      () => (cleanedUp = true)
+    )
+    slowToken.cancel()
+    try {
+      await slowOp
+      t.fail('Should reject a cancelled operation')
+    } catch (err) {
+      t.ok(err instanceof CancelledError, 'Should reject with CancelledError')
+      t.ok(cleanedUp, 'Should clean up after a cancelled operation')
+    }
+
+    const delayToken = new CancellationToken()
+    const start = Date.now()
+    setTimeout(() => delayToken.cancel(), 10)
+    try {
+      await delayAsync(10000, delayToken)
+      t.fail('Should reject a cancelled delay')
+    } catch (err) {
+      t.ok(err instanceof CancelledError, 'Should reject a cancelled delay with CancelledError')
+      t.ok(Date.now() - start < 5000, 'Should stop waiting as soon as the delay is cancelled')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('Client request cancellation', async t => {
+  try {
+    const { rpcClient, pending } = createStubRPCClient()
+    const client = new Client('default', rpcClient)
+    client.nonceRetryStrategy = { retries: 0 }
+    const failures: ITxFailedEventArgs[] = []
+    client.on(ClientEvent.TxFailed, (eventArgs: ITxFailedEventArgs) => failures.push(eventArgs))
+
+    const readToken = new CancellationToken()
+    const read = client.getBlockHeightAsync({ timeout: 500, cancellationToken: readToken })
+    t.equal(rpcClient.requests[0].opts.timeout, 500, 'Should pass the timeout to the RPC client')
+    readToken.cancel()
+    try {
+      await read
+      t.fail('Cancelled read should be rejected')
+    } catch (err) {
+      t.ok(err instanceof CancelledError, 'Cancelled read should be rejected with CancelledError')
+      t.equal(pending.count, 0, 'Cancelled read should be cleaned up by the RPC client')
+    }
+
+    const cancelledToken = new CancellationToken()
+    cancelledToken.cancel()
+    try {
+      await client.commitTxAsync(new MapEntry(), {
+        middleware: [],
+        cancellationToken: cancelledToken
+      })
+      t.fail('Tx with a cancelled token should be rejected')
+    } catch (err) {
+      t.ok(err instanceof CancelledError, 'Tx should be rejected with CancelledError')
+      t.equal(rpcClient.requests.length, 1, 'Tx with a cancelled token should not be sent')
+      t.equal(failures.length, 1, 'Should emit a tx failed event')
+      t.equal(failures[0].reason, TxFailureReason.Cancelled, 'Failure reason should be Cancelled')
+    }
+
+    const waitToken = new CancellationToken()
+    const wait = client.waitForTxAsync('ABCD', { cancellationToken: waitToken })
+    waitToken.cancel()
+    try {
+      await wait
+      t.fail('Cancelled wait should be rejected')
+    } catch (err) {
+      t.ok(err instanceof CancelledError, 'Cancelled wait should be rejected with CancelledError')
+      t.equal(pending.count, 0, 'Cancelled wait should not leave requests behind')
+      t.equal(failures.length, 2, 'Cancelled wait should emit a tx failed event')
+      t.equal(failures[1].reason, TxFailureReason.Cancelled, 'Failure reason should be Cancelled')
+      t.equal(failures[1].hash, 'ABCD', 'Failed event should have the tx hash')
+    }
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
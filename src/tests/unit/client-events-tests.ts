@@ -0,0 +1,71 @@
+import test from 'tape'
+
+import { Client, Address, LocalAddress, CryptoUtils } from '../../index'
+import { EventData, EventDataList } from '../../proto/loom_pb'
+import { StubRPCClient } from '../helpers'
+
+const contractAddr = new Address('default', LocalAddress.fromHexString('0x' + '01'.repeat(20)))
+const otherAddr = new Address('default', LocalAddress.fromHexString('0x' + '02'.repeat(20)))
+const callerAddr = new Address('default', LocalAddress.fromHexString('0x' + '03'.repeat(20)))
+
+function createEventData(contract: Address, topics: string[], height: number): EventData {
+  const eventData = new EventData()
+  eventData.setAddress(contract.MarshalPB())
+  eventData.setCaller(callerAddr.MarshalPB())
+  eventData.setTopicsList(topics)
+  eventData.setBlockHeight(height)
+  eventData.setEncodedBody(new Uint8Array([1, 2, 3]))
+  eventData.setTxHash(new Uint8Array([0xab, 0xcd]))
+  return eventData
+}
+
+function createStubRPCClient(events: EventData[]) {
+  return new StubRPCClient('stub://events', () => {
+    const eventList = new EventDataList()
+    eventList.setEventsList(events)
+    return CryptoUtils.Uint8ArrayToB64(eventList.serializeBinary())
+  })
+}
+
+test('Client.getEventsAsync', async t => {
+  try {
+    const rpcClient = createStubRPCClient([
+      createEventData(contractAddr, ['a'], 5),
+      createEventData(contractAddr, ['b', 'c'], 6),
+      createEventData(otherAddr, ['a'], 6)
+    ])
+    const client = new Client('default', rpcClient)
+    const lastParams = () => rpcClient.requests[rpcClient.requests.length - 1].params
+
+    let events = await client.getEventsAsync({ fromHeight: 5, toHeight: 6 })
+    t.equal(events.length, 3, 'Should return all events in the range')
+    t.equal(lastParams().fromBlock, 5, 'Should send the first block height')
+    t.equal(lastParams().toBlock, 6, 'Should send the last block height')
+
+    const event = events[0]
+    t.ok(event.contractAddress.equals(contractAddr), 'Should decode the contract address')
+    t.ok(event.callerAddress.equals(callerAddr), 'Should decode the caller address')
+    t.equal(event.blockHeight, '5', 'Should decode the block height')
+    t.deepEqual(event.topics, ['a'], 'Should decode the topics')
+    t.deepEqual(Array.from(event.data), [1, 2, 3], 'Should decode the event data')
+    t.deepEqual(Array.from(event.transactionHashBytes), [0xab, 0xcd], 'Should decode the tx hash')
+    t.equal(event.url, rpcClient.url, 'Should set the url of the RPC client')
+
+    events = await client.getEventsAsync({ fromHeight: 5, toHeight: 6, contract: contractAddr })
+    t.equal(events.length, 2, 'Should only return events emitted by the given contract')
+    t.equal(
+      lastParams().contract,
+      contractAddr.local.toString(),
+      'Should send the contract address to the node'
+    )
+
+    events = await client.getEventsAsync({ fromHeight: 5, toHeight: 6, topics: ['c'] })
+    t.equal(events.length, 1, 'Should only return events matching the given topics')
+    t.equal(events[0].blockHeight, '6', 'Should return the event with the matching topic')
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,163 @@
+import test from 'tape'
+
+import {
+  Address,
+  BroadcastTxMode,
+  Client,
+  ClientEvent,
+  CryptoUtils,
+  ITxFailedEventArgs,
+  LocalAddress,
+  RPCError,
+  TimeoutError,
+  TxDeliverError,
+  TxFailureReason,
+  createDefaultTxMiddleware
+} from '../../index'
+import { FakeDAppChainClient, FakeFaultKind } from '../../testing'
+import { bufferToProtobufBytes } from '../../crypto-utils'
+import { RPCClientEvent } from '../../internal/json-rpc-client'
+import { createContractMethodCallTx } from '../../tx-builder'
+import { MapEntry } from '../tests_pb'
+import { StubRPCClient } from '../helpers'
+
+function createEntry(key: string, value: string): MapEntry {
+  const entry = new MapEntry()
+  entry.setKey(key)
+  entry.setValue(value)
+  return entry
+}
+
+function setup() {
+  const fake = new FakeDAppChainClient({ blockInterval: 50 })
+  const entries = new Map<string, string>()
+  const contractAddr = fake.registerContract('MapStore', {
+    Set: (ctx, args) => {
+      const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+      entries.set(entry.getKey(), entry.getValue())
+    },
+    Fail: () => {
+      throw new Error('map is read-only')
+    }
+  })
+  const client = new Client('default', fake)
+  const privateKey = CryptoUtils.generatePrivateKey()
+  const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+  client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+  const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+  return { fake, client, entries, contractAddr, callerAddr }
+}
+
+test('Client.sendTxAsync & Client.waitForTxAsync', async t => {
+  const { fake, client, entries, contractAddr, callerAddr } = setup()
+  try {
+    const txPolls: string[] = []
+    fake.on(RPCClientEvent.RequestCompleted, (url: string, method: string) => {
+      if (method === 'tx') {
+        txPolls.push(method)
+      }
+    })
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'Set', createEntry('a', '1'))
+    const hash = await client.sendTxAsync(tx)
+    t.equal(entries.get('a'), undefined, 'Should return before the tx is committed')
+    await client.waitForTxAsync(hash, { pollInterval: 10 })
+    t.equal(entries.get('a'), '1', 'Should wait until the tx is committed')
+    t.ok(txPolls.length > 1, 'Should keep polling until the tx is committed')
+
+    const tx2 = createContractMethodCallTx(callerAddr, contractAddr, 'Set', createEntry('b', '2'))
+    const hash2 = await client.sendTxAsync(tx2, { mode: BroadcastTxMode.Async })
+    await client.waitForTxAsync(hash2, { pollInterval: 10 })
+    t.equal(entries.get('b'), '2', 'Should wait for txs sent without waiting for CheckTx')
+  } catch (err) {
+    t.fail(err)
+  }
+  client.disconnect()
+  t.end()
+})
+
+test('Client.waitForTxAsync timeout', async t => {
+  const { fake, client, entries, contractAddr, callerAddr } = setup()
+  try {
+    fake.blockInterval = 1000
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'Set', createEntry('a', '1'))
+    const hash = await client.sendTxAsync(tx)
+    try {
+      await client.waitForTxAsync(hash, { timeout: 100, pollInterval: 10 })
+      t.fail('Should fail if the tx is not committed in time')
+    } catch (err) {
+      t.ok(err instanceof TimeoutError, 'Should throw TimeoutError')
+    }
+    t.equal(entries.get('a'), undefined, 'Should not have committed the tx')
+  } catch (err) {
+    t.fail(err)
+  }
+  client.disconnect()
+  t.end()
+})
+
+test('Client.waitForTxAsync polling failure', async t => {
+  const { fake, client, contractAddr, callerAddr } = setup()
+  try {
+    const failures: ITxFailedEventArgs[] = []
+    client.on(ClientEvent.TxFailed, (eventArgs: ITxFailedEventArgs) => failures.push(eventArgs))
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'Set', createEntry('a', '1'))
+    const hash = await client.sendTxAsync(tx)
+    fake.injectFault({ kind: FakeFaultKind.NetworkError, method: 'tx' })
+    try {
+      await client.waitForTxAsync(hash, { pollInterval: 10 })
+      t.fail('Should fail if the tx result cannot be fetched')
+    } catch (err) {
+      t.equal(err.code, 'ECONNREFUSED', 'Should throw the error the request failed with')
+    }
+    t.equal(failures.length, 1, 'Should emit a tx failed event')
+    t.equal(failures[0].reason, TxFailureReason.Other, 'Failure reason should be Other')
+    t.equal(failures[0].hash, hash, 'Failed event should have the tx hash')
+  } catch (err) {
+    t.fail(err)
+  }
+  client.disconnect()
+  t.end()
+})
+
+test('Client.waitForTxAsync RPC errors', async t => {
+  let polls = 0
+  const client = new Client(
+    'default',
+    new StubRPCClient('stub://tx', () => {
+      if (++polls === 1) {
+        throw new RPCError(-32603, 'Internal error', 'Tx (ABCD) not found')
+      }
+      throw new RPCError(-32000, 'Server error', 'contract not found')
+    })
+  )
+  try {
+    await client.waitForTxAsync('ABCD', { pollInterval: 10 })
+    t.fail('Should fail if the node responds with an unexpected error')
+  } catch (err) {
+    t.equal(polls, 2, 'Should keep polling while the tx is not found')
+    t.equal(err.data, 'contract not found', 'Should throw any other error')
+  }
+  client.disconnect()
+  t.end()
+})
+
+test('Client.waitForTxAsync DeliverTx failure', async t => {
+  const { client, contractAddr, callerAddr } = setup()
+  try {
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'Fail', createEntry('a', '1'))
+    const hash = await client.sendTxAsync(tx)
+    try {
+      await client.waitForTxAsync(hash, { pollInterval: 10 })
+      t.fail('Should fail if the tx fails during DeliverTx')
+    } catch (err) {
+      t.ok(err instanceof TxDeliverError, 'Should throw TxDeliverError')
+      t.equal(err.log, 'map is read-only', 'Should include the error returned by the contract')
+      t.equal(err.hash, hash, 'Should include the tx hash')
+      t.equal(err.height, 1, 'Should include the height of the block the tx was committed in')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  client.disconnect()
+  t.end()
+})
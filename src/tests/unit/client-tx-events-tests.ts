@@ -0,0 +1,105 @@
+import test from 'tape'
+
+import {
+  Client,
+  ClientEvent,
+  INonceRetryEventArgs,
+  ITxCommittedEventArgs,
+  ITxFailedEventArgs,
+  TxFailureReason,
+  TxDeliverError
+} from '../../index'
+import { MapEntry } from '../tests_pb'
+import { StubRPCClient } from '../helpers'
+
+function createClient(results: any[]): { client: Client; kinds: string[]; events: any[] } {
+  const client = new Client('default', new StubRPCClient('stub://tx', () => results.shift()))
+  client.nonceRetryStrategy = { retries: 2, minTimeout: 1, maxTimeout: 1 }
+  const kinds: string[] = []
+  const events: any[] = []
+  const kindsToRecord = [
+    ClientEvent.TxBuilt,
+    ClientEvent.TxSent,
+    ClientEvent.NonceRetry,
+    ClientEvent.TxCommitted,
+    ClientEvent.TxFailed
+  ]
+  kindsToRecord.forEach(kind =>
+    client.on(kind, (eventArgs: any) => {
+      kinds.push(eventArgs.kind)
+      events.push(eventArgs)
+    })
+  )
+  return { client, kinds, events }
+}
+
+const committedResult = {
+  check_tx: {},
+  deliver_tx: {},
+  hash: 'ABCD',
+  height: '10'
+}
+
+test('Client tx lifecycle events', async t => {
+  const tx = new MapEntry()
+  try {
+    let { client, kinds, events } = createClient([committedResult])
+    await client.commitTxAsync(tx, { middleware: [] })
+    t.deepEqual(
+      kinds,
+      [ClientEvent.TxBuilt, ClientEvent.TxSent, ClientEvent.TxCommitted],
+      'Should emit built, sent & committed events for a committed tx'
+    )
+    const committed = events[2] as ITxCommittedEventArgs
+    t.equal(committed.hash, 'ABCD', 'Committed event should have the tx hash')
+    t.equal(committed.height, 10, 'Committed event should have the block height')
+
+    const badNonceResult = {
+      check_tx: { code: 1, log: 'sequence number does not match' },
+      deliver_tx: {},
+      hash: 'ABCD',
+      height: '0'
+    }
+    ;({ client, kinds, events } = createClient([badNonceResult, committedResult]))
+    await client.commitTxAsync(tx, { middleware: [] })
+    t.deepEqual(
+      kinds,
+      [
+        ClientEvent.TxBuilt,
+        ClientEvent.TxSent,
+        ClientEvent.NonceRetry,
+        ClientEvent.TxBuilt,
+        ClientEvent.TxSent,
+        ClientEvent.TxCommitted
+      ],
+      'Should emit nonce retry event before resending the tx'
+    )
+    t.equal((events[2] as INonceRetryEventArgs).attempt, 2, 'Retry event should have attempt')
+
+    const failedResult = {
+      check_tx: {},
+      deliver_tx: { code: 2, log: 'boom' },
+      hash: 'ABCD',
+      height: '11'
+    }
+    ;({ client, kinds, events } = createClient([failedResult]))
+    try {
+      await client.commitTxAsync(tx, { middleware: [] })
+      t.fail('commitTxAsync() should throw')
+    } catch (err) {
+      t.ok(err instanceof TxDeliverError, 'commitTxAsync() should throw TxDeliverError')
+    }
+    t.deepEqual(
+      kinds,
+      [ClientEvent.TxBuilt, ClientEvent.TxSent, ClientEvent.TxFailed],
+      'Should emit failed event for a failed tx'
+    )
+    const failed = events[2] as ITxFailedEventArgs
+    t.equal(failed.reason, TxFailureReason.DeliverTx, 'Failed event should have the reason')
+    t.equal(failed.hash, 'ABCD', 'Failed event should have the tx hash')
+    t.equal(failed.height, 11, 'Failed event should have the block height')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,52 @@
+import test from 'tape'
+
+import { Address, Client, CryptoUtils, LocalAddress, createDefaultTxMiddleware } from '../../index'
+import { FakeDAppChainClient, FakeFaultKind } from '../../testing'
+import { bufferToProtobufBytes } from '../../crypto-utils'
+import { createContractMethodCallTx } from '../../tx-builder'
+import { MapEntry } from '../tests_pb'
+
+function createEntry(key: string, value: string): MapEntry {
+  const entry = new MapEntry()
+  entry.setKey(key)
+  entry.setValue(value)
+  return entry
+}
+
+test('Client.commitTxWithResultAsync', async t => {
+  try {
+    const fake = new FakeDAppChainClient()
+    const entries = new Map<string, string>()
+    const contractAddr = fake.registerContract('MapStore', {
+      Set: (ctx, args) => {
+        const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+        entries.set(entry.getKey(), entry.getValue())
+        ctx.emitEvent(args, ['map:set'])
+      }
+    })
+    const client = new Client('default', fake)
+    const privateKey = CryptoUtils.generatePrivateKey()
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'Set', createEntry('a', '1'))
+    const result = await client.commitTxWithResultAsync(tx)
+    t.equal(result.height, 1, 'Should return the height of the block the tx was committed in')
+    t.equal(result.events.length, 1, 'Should return the events emitted by the tx')
+    t.deepEqual(result.events[0].topics, ['map:set'], 'Should return the event topics')
+    t.equal(result.eventsError, undefined, 'Should not report an error')
+
+    fake.injectFault({ kind: FakeFaultKind.NetworkError, method: 'getevents' })
+    const tx2 = createContractMethodCallTx(callerAddr, contractAddr, 'Set', createEntry('b', '2'))
+    const result2 = await client.commitTxWithResultAsync(tx2)
+    t.equal(entries.get('b'), '2', 'Should commit the tx')
+    t.equal(result2.height, 2, 'Should return the commit result even if the events lookup fails')
+    t.deepEqual(result2.events, [], 'Should return an empty list of events')
+    t.ok(result2.eventsError, 'Should report why the events could not be fetched')
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
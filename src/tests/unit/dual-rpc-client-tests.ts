@@ -0,0 +1,123 @@
+import test from 'tape'
+
+import { TimeoutError } from '../../index'
+import { DualRPCClient } from '../../internal/dual-rpc-client'
+import { JSONRPCProtocol } from '../../internal/json-rpc-client'
+
+function createClient(protocol: JSONRPCProtocol) {
+  const client = new DualRPCClient({
+    httpUrl: 'http://localhost',
+    wsUrl: 'ws://localhost',
+    autoConnect: false,
+    protocol
+  })
+  const http = { isDown: false, sent: 0 }
+  ;(client as any)._http.sendAsync = (method: string, params: any) => {
+    http.sent++
+    return http.isDown
+      ? Promise.reject(new TimeoutError('timeout'))
+      : Promise.resolve(`http:${method}`)
+  }
+  const ws = { ready: false, sent: 0 }
+  // stands in for the web socket connection
+  ;(client as any)._connection = {
+    get ready() {
+      return ws.ready
+    },
+    call(method: string, params: any, timeout: number) {
+      ws.sent++
+      return Promise.resolve(`ws:${method}`)
+    }
+  }
+  return { client, http, ws }
+}
+
+test('DualRPCClient', async t => {
+  try {
+    let { client, http, ws } = createClient(JSONRPCProtocol.WS)
+    ws.ready = true
+    t.equal(await client.sendAsync('query', {}), 'ws:query', 'Should send via WebSocket')
+    t.deepEqual(
+      await client.sendWithProtocolAsync('query', {}),
+      { result: 'ws:query', protocol: JSONRPCProtocol.WS },
+      'Should report the protocol used'
+    )
+
+    ws.ready = false
+    t.equal(
+      await client.sendAsync('query', {}),
+      'http:query',
+      'Should send via HTTP while the socket is disconnected'
+    )
+    const pending = client.sendWithProtocolAsync('query', {})
+    ws.ready = true
+    const concurrent = client.sendWithProtocolAsync('query', {})
+    t.equal(
+      (await pending).protocol,
+      JSONRPCProtocol.HTTP,
+      'Should report the protocol used by each request, even when requests overlap'
+    )
+    t.equal((await concurrent).protocol, JSONRPCProtocol.WS, 'Should report the protocol used')
+    const wsSent = ws.sent
+    t.deepEqual(
+      await client.sendBatchAsync([
+        { method: 'query', params: {} },
+        { method: 'nonce', params: {} }
+      ]),
+      [{ result: 'ws:query' }, { result: 'ws:nonce' }],
+      'Should send batches via WebSocket one request at a time'
+    )
+    t.equal(ws.sent - wsSent, 2, 'Should send each request in the batch separately')
+    ;({ client, http, ws } = createClient(JSONRPCProtocol.HTTP))
+    t.equal(await client.sendAsync('query', {}), 'http:query', 'Should send via HTTP')
+    t.equal(ws.sent, 0, 'Should not send via WebSocket')
+
+    ws.ready = true
+    const subId = await client.sendAsync<string>('evmsubscribe', { method: 'logs' })
+    t.equal(subId, 'ws:evmsubscribe', 'Should always create EVM subscriptions via WebSocket')
+    t.deepEqual(
+      client.evmSubscriptionIds,
+      [subId],
+      'Should keep track of EVM subscriptions so they can be restored after reconnecting'
+    )
+    t.equal(
+      await client.sendAsync('evmunsubscribe', { id: subId }),
+      'ws:evmunsubscribe',
+      'Should always remove EVM subscriptions via WebSocket'
+    )
+    t.deepEqual(client.evmSubscriptionIds, [], 'Should stop tracking removed EVM subscriptions')
+    t.equal(http.sent, 1, 'Should not send EVM subscription requests via HTTP')
+    ws.ready = false
+
+    http.isDown = true
+    ws.ready = true
+    t.equal(
+      await client.sendAsync('query', {}),
+      'ws:query',
+      'Should fall back to WebSocket when HTTP fails'
+    )
+    t.equal(
+      (await client.sendWithProtocolAsync('query', {})).protocol,
+      JSONRPCProtocol.WS,
+      'Should report the fallback protocol'
+    )
+
+    try {
+      await client.sendAsync('broadcast_tx_commit', [])
+      t.fail('sendAsync() should throw')
+    } catch (err) {
+      t.ok(err instanceof TimeoutError, 'Should not resend broadcasts that may have gone out')
+    }
+
+    ws.ready = false
+    try {
+      await client.sendAsync('query', {})
+      t.fail('sendAsync() should throw')
+    } catch (err) {
+      t.ok(err instanceof TimeoutError, 'Should throw when neither protocol is available')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
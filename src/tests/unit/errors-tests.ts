@@ -0,0 +1,46 @@
+import test from 'tape'
+
+import {
+  TxCheckError,
+  TxDeliverError,
+  InvalidNonceError,
+  RPCError,
+  TimeoutError,
+  isInvalidTxNonceError
+} from '../../index'
+
+test('Errors', t => {
+  try {
+    const nonceErr = new InvalidNonceError(1, 'sequence number does not match', 'ABCD', 10)
+    t.ok(nonceErr instanceof InvalidNonceError, 'InvalidNonceError instanceof InvalidNonceError')
+    t.ok(nonceErr instanceof TxCheckError, 'InvalidNonceError instanceof TxCheckError')
+    t.ok(nonceErr instanceof Error, 'InvalidNonceError instanceof Error')
+    t.ok(isInvalidTxNonceError(nonceErr), 'isInvalidTxNonceError() detects InvalidNonceError')
+    t.equal(nonceErr.code, 1, 'InvalidNonceError has the ABCI code')
+    t.equal(nonceErr.hash, 'ABCD', 'InvalidNonceError has the tx hash')
+    t.equal(nonceErr.height, 10, 'InvalidNonceError has the block height')
+
+    const checkErr = new TxCheckError(2, 'bad tx')
+    t.notOk(checkErr instanceof InvalidNonceError, 'TxCheckError !instanceof InvalidNonceError')
+    t.notOk(isInvalidTxNonceError(checkErr), 'isInvalidTxNonceError() ignores TxCheckError')
+    t.equal(checkErr.message, 'Failed to commit Tx: bad tx', 'TxCheckError message has the log')
+
+    const deliverErr = new TxDeliverError(3, undefined, 'ABCD', 11)
+    t.ok(deliverErr instanceof TxDeliverError, 'TxDeliverError instanceof TxDeliverError')
+    t.notOk(deliverErr instanceof TxCheckError, 'TxDeliverError !instanceof TxCheckError')
+    t.equal(deliverErr.message, 'Failed to commit Tx: 3', 'TxDeliverError message has the code')
+
+    const rpcErr = new RPCError(-32603, 'Internal error', 'Tx not found')
+    t.ok(rpcErr instanceof RPCError, 'RPCError instanceof RPCError')
+    t.equal(rpcErr.code, -32603, 'RPCError has the JSON-RPC code')
+    t.equal(rpcErr.data, 'Tx not found', 'RPCError has the JSON-RPC data')
+
+    t.ok(
+      new TimeoutError('timeout') instanceof TimeoutError,
+      'TimeoutError instanceof TimeoutError'
+    )
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
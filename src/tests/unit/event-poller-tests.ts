@@ -0,0 +1,116 @@
+import test from 'tape'
+
+import {
+  Address,
+  Client,
+  ClientEvent,
+  Contract,
+  CryptoUtils,
+  IChainEventArgs,
+  IEventPollErrorEventArgs,
+  LocalAddress,
+  createDefaultTxMiddleware
+} from '../../index'
+import { FakeDAppChainClient } from '../../testing'
+import { HTTPRPCClient } from '../../internal/http-rpc-client'
+import { RPCClientEvent } from '../../internal/json-rpc-client'
+import { MapEntry } from '../tests_pb'
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function createEntry(key: string): MapEntry {
+  const entry = new MapEntry()
+  entry.setKey(key)
+  return entry
+}
+
+test('HTTPRPCClient event polling', async t => {
+  try {
+    const fake = new FakeDAppChainClient()
+    const contractAddr = fake.registerContract('Emitter', {
+      Emit: (ctx, args) => ctx.emitEvent(args, ['emitted'])
+    })
+    const http = new HTTPRPCClient('http://localhost', {
+      eventPollInterval: 10,
+      eventPollMethod: 'getevents'
+    })
+    // read everything from the fake instead of sending HTTP requests
+    let failNextPoll = ''
+    ;(http as any)._sendAsync = (method: string, params: any) => {
+      if (failNextPoll === method) {
+        failNextPoll = ''
+        return Promise.reject(new Error('Network Error'))
+      }
+      return fake.sendAsync(method, params)
+    }
+
+    const client = new Client('default', fake, http)
+    const privateKey = CryptoUtils.generatePrivateKey()
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+    const contract = new Contract({ contractAddr, callerAddr, client })
+
+    await contract.callAsync('Emit', createEntry('before'))
+    const events: IChainEventArgs[] = []
+    const errors: any[] = []
+    client.on(ClientEvent.Contract, (event: IChainEventArgs) => events.push(event))
+    client.on(ClientEvent.EventPollError, (event: IEventPollErrorEventArgs) =>
+      errors.push(event.error)
+    )
+    t.ok(http.isSubscribed, 'Should start polling when someone listens for events')
+    await delay(30)
+
+    await contract.callAsync('Emit', createEntry('a'))
+    await contract.callAsync('Emit', createEntry('b'))
+    await delay(30)
+    t.deepEqual(
+      events.map(event => MapEntry.deserializeBinary(event.data as any).getKey()),
+      ['a', 'b'],
+      'Should deliver the events emitted since polling started, in order'
+    )
+    t.ok(events[0].contractAddress.equals(contractAddr), 'Should deliver the contract address')
+    t.equal(events[1].blockHeight, '3', 'Should deliver the block height')
+
+    failNextPoll = 'getevents'
+    await contract.callAsync('Emit', createEntry('c'))
+    await delay(50)
+    t.equal(errors.length, 1, 'Should report failed polls')
+    t.deepEqual(
+      events.map(event => MapEntry.deserializeBinary(event.data as any).getKey()),
+      ['a', 'b', 'c'],
+      'Should pick up where it left off after a failed poll, without duplicating events'
+    )
+
+    // nothing is listening for errors on the client, so emitting an error event would throw
+    failNextPoll = 'getblockheight'
+    await contract.callAsync('Emit', createEntry('d'))
+    await delay(50)
+    t.equal(errors.length, 2, 'Should report polls that fail to fetch the block height')
+    t.equal(client.listenerCount(ClientEvent.Error), 0, 'Should not require an error listener')
+    t.equal(
+      MapEntry.deserializeBinary(events[events.length - 1].data as any).getKey(),
+      'd',
+      'Should keep polling after failing to fetch the block height'
+    )
+
+    client.removeAllListeners(ClientEvent.Contract)
+    t.notOk(http.isSubscribed, 'Should stop polling when no one is listening for events')
+    client.disconnect()
+
+    const defaultHttp = new HTTPRPCClient('http://localhost')
+    defaultHttp.on(RPCClientEvent.Message, () => undefined)
+    t.notOk(defaultHttp.isSubscribed, 'Should not poll for events unless polling is enabled')
+    t.throws(
+      () => new HTTPRPCClient('http://localhost', { eventPollInterval: 10 }),
+      /eventPollMethod/,
+      'Should require the method to poll for events with'
+    )
+    defaultHttp.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
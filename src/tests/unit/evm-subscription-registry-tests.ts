@@ -0,0 +1,128 @@
+import test from 'tape'
+
+import { EvmSubscriptionRegistry } from '../../internal/evm-subscription-registry'
+import { WSRPCClient } from '../../internal/ws-rpc-client'
+import { RPCClientEvent } from '../../internal/json-rpc-client'
+import { stubWSConnections } from '../helpers'
+
+test('EvmSubscriptionRegistry', async t => {
+  try {
+    const registry = new EvmSubscriptionRegistry()
+    registry.onResponse('evmsubscribe', { method: 'logs', filter: '{}' }, '0x1')
+    registry.onResponse('newblockevmfilter', {}, '0x2')
+    registry.onResponse('newevmfilter', { filter: '{}' }, null)
+    registry.onResponse('getblockheight', {}, 5)
+    t.deepEqual(registry.ids, ['0x1', '0x2'], 'Should track created subscriptions & filters')
+
+    let nextId = 10
+    const sent: any[] = []
+    const lost: string[] = []
+    await registry.restoreAsync(
+      (method, params) => {
+        sent.push({ method, params })
+        return method === 'newblockevmfilter'
+          ? Promise.reject(new Error('nope'))
+          : Promise.resolve('0x' + nextId++)
+      },
+      id => lost.push(id)
+    )
+    t.deepEqual(
+      sent,
+      [
+        { method: 'evmsubscribe', params: { method: 'logs', filter: '{}' } },
+        { method: 'newblockevmfilter', params: {} }
+      ],
+      'Should recreate subscriptions with the original parameters'
+    )
+    t.deepEqual(lost, ['0x2'], 'Should report subscriptions that could not be recreated')
+    t.deepEqual(registry.ids, ['0x1'], 'Should forget subscriptions that could not be recreated')
+
+    t.equal(registry.toCallerId('0x10'), '0x1', 'Should map new server ids to the original ids')
+    t.equal(registry.toCallerId('0x11'), '0x11', 'Should leave unknown ids alone')
+    t.deepEqual(
+      registry.toServerParams('evmunsubscribe', { id: '0x1' }),
+      { id: '0x10' },
+      'Should send the new server id in place of the original id'
+    )
+    t.deepEqual(
+      registry.toServerParams('getevmlogs', { id: '0x1' }),
+      { id: '0x1' },
+      'Should only replace ids in requests that refer to subscriptions'
+    )
+
+    registry.onResponse('evmunsubscribe', { id: '0x1' }, true)
+    t.deepEqual(registry.ids, [], 'Should stop tracking removed subscriptions')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('WSRPCClient restores EVM subscriptions after reconnecting', async t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', { autoConnect: false })
+    let nextId = 1
+    const sent: any[] = []
+    // stub out the transport, this client never actually connects
+    ;(client as any)._sendAsync = (method: string, params: any) => {
+      sent.push({ method, params })
+      return Promise.resolve(method === 'evmunsubscribe' ? true : '0x' + nextId++)
+    }
+    const lost: string[] = []
+    client.on(RPCClientEvent.EvmSubscriptionLost, (url: string, id: string) => lost.push(id))
+
+    const id = await client.sendAsync<string>('evmsubscribe', { method: 'newHeads', filter: '' })
+    t.deepEqual(client.evmSubscriptionIds, [id], 'Should track the subscription')
+
+    const connections = stubWSConnections(client)
+    client.reconnect()
+    connections[0].open()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    t.deepEqual(
+      sent[1],
+      { method: 'evmsubscribe', params: { method: 'newHeads', filter: '' } },
+      'Should resubscribe after reconnecting'
+    )
+
+    await client.sendAsync('evmunsubscribe', { id })
+    t.deepEqual(sent[2].params, { id: '0x2' }, 'Should unsubscribe using the new server id')
+    t.deepEqual(client.evmSubscriptionIds, [], 'Should stop tracking the subscription')
+    t.deepEqual(lost, [], 'Should not report any lost subscriptions')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('WSRPCClient reports EVM subscriptions lost while reconnecting', async t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', { autoConnect: false })
+    let nextId = 1
+    let isDown = false
+    // stub out the transport, this client never actually connects
+    ;(client as any)._sendAsync = (method: string, params: any) =>
+      isDown ? Promise.reject(new Error('Network Error')) : Promise.resolve('0x' + nextId++)
+    const lost: string[] = []
+    client.on(RPCClientEvent.EvmSubscriptionLost, (url: string, id: string, err: Error) => {
+      lost.push(id)
+      throw new Error('listener failed')
+    })
+
+    const id1 = await client.sendAsync<string>('evmsubscribe', { method: 'newHeads', filter: '' })
+    const id2 = await client.sendAsync<string>('newblockevmfilter', {})
+    isDown = true
+    const connections = stubWSConnections(client)
+    client.reconnect()
+    connections[0].open()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    t.deepEqual(
+      lost,
+      [id1, id2],
+      'Should report each subscription that could not be recreated, even if a listener throws'
+    )
+    t.deepEqual(client.evmSubscriptionIds, [], 'Should stop tracking the lost subscriptions')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
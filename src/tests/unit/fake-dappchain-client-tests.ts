@@ -0,0 +1,171 @@
+import test from 'tape'
+
+import {
+  Address,
+  Client,
+  ClientEvent,
+  Contract,
+  CryptoUtils,
+  IChainEventArgs,
+  InvalidNonceError,
+  LocalAddress,
+  TimeoutError,
+  TxDeliverError,
+  createDefaultTxMiddleware
+} from '../../index'
+import { FakeDAppChainClient, FakeFaultKind } from '../../testing'
+import { bufferToProtobufBytes } from '../../crypto-utils'
+import { MapEntry } from '../tests_pb'
+
+function createMapContract(fake: FakeDAppChainClient) {
+  const entries = new Map<string, string>()
+  return fake.registerContract('MapStore', {
+    Set: (ctx, args) => {
+      const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+      if (!entry.getKey()) {
+        throw new Error('key is required')
+      }
+      entries.set(entry.getKey(), entry.getValue())
+      ctx.emitEvent(args, ['map:set'])
+    },
+    Get: (ctx, args) => {
+      const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+      entry.setValue(entries.get(entry.getKey()) || '')
+      return entry.serializeBinary()
+    }
+  })
+}
+
+function createMapEntry(key: string, value: string = ''): MapEntry {
+  const entry = new MapEntry()
+  entry.setKey(key)
+  entry.setValue(value)
+  return entry
+}
+
+test('FakeDAppChainClient', async t => {
+  try {
+    const fake = new FakeDAppChainClient({ requestTimeout: 10 })
+    const contractAddr = createMapContract(fake)
+    const client = new Client('default', fake)
+    client.nonceRetryStrategy = { retries: 1, minTimeout: 1, maxTimeout: 1 }
+    const privateKey = CryptoUtils.generatePrivateKey()
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+    const contract = new Contract({ contractAddr, callerAddr, client })
+
+    const resolved = await client.getContractAddressAsync('MapStore')
+    t.ok(resolved && resolved.equals(contractAddr), 'Should resolve contract names')
+
+    const events: IChainEventArgs[] = []
+    client.on(ClientEvent.Contract, (event: IChainEventArgs) => events.push(event))
+    await contract.callAsync('Set', createMapEntry('a', '1'))
+    const output = await contract.staticCallAsync('Get', createMapEntry('a'), new MapEntry())
+    t.equal(output.getValue(), '1', 'Should call & query contract methods')
+    t.equal(await client.getBlockHeightAsync(), 1, 'Should commit each tx in a new block')
+    t.equal(
+      await client.getNonceAsync(CryptoUtils.bytesToHex(publicKey)),
+      1,
+      'Should track nonces'
+    )
+    t.equal(events.length, 1, 'Should deliver events to subscribers')
+    t.deepEqual(events[0].topics, ['map:set'], 'Should deliver event topics')
+    t.ok(events[0].contractAddress.equals(contractAddr), 'Should deliver the contract address')
+
+    const result = await contract.callWithResultAsync('Set', createMapEntry('b', '2'))
+    t.equal(result.events.length, 1, 'Should return the events emitted by a tx')
+
+    try {
+      await contract.callAsync('Set', createMapEntry(''))
+      t.fail('Should reject txs that fail in the contract')
+    } catch (err) {
+      t.ok(err instanceof TxDeliverError, 'Should fail txs with TxDeliverError')
+    }
+
+    let nonceRetries = 0
+    client.on(ClientEvent.NonceRetry, () => nonceRetries++)
+    fake.injectFault({ kind: FakeFaultKind.InvalidNonce })
+    await contract.callAsync('Set', createMapEntry('c', '3'))
+    t.equal(nonceRetries, 1, 'Should simulate nonce mismatches')
+
+    fake.injectFault({ kind: FakeFaultKind.InvalidNonce, count: 2 })
+    try {
+      await contract.callAsync('Set', createMapEntry('c', '3'))
+      t.fail('Should reject txs with mismatched nonces')
+    } catch (err) {
+      t.ok(err instanceof InvalidNonceError, 'Should fail txs with InvalidNonceError')
+    }
+
+    fake.injectFault({ kind: FakeFaultKind.Timeout, method: 'query' })
+    try {
+      await contract.staticCallAsync('Get', createMapEntry('a'), new MapEntry())
+      t.fail('Should simulate timeouts')
+    } catch (err) {
+      t.ok(err instanceof TimeoutError, 'Should fail requests with TimeoutError')
+    }
+
+    const otherKey = CryptoUtils.generatePrivateKey()
+    client.txMiddleware = createDefaultTxMiddleware(client, otherKey)
+    try {
+      await contract.callAsync('Set', createMapEntry('d', '4'))
+      t.fail('Should reject txs signed by someone other than the caller')
+    } catch (err) {
+      t.ok(/caller/.test(err.message), 'Should check the caller matches the signer')
+    }
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('Contract event topics', async t => {
+  try {
+    const fake = new FakeDAppChainClient()
+    const contractAddr = fake.registerContract('Emitter', {
+      Emit: (ctx, args) => {
+        const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+        ctx.emitEvent(args, [entry.getValue()])
+      }
+    })
+    const client = new Client('default', fake)
+    const privateKey = CryptoUtils.generatePrivateKey()
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+    const filtered = new Contract({ contractAddr, callerAddr, client, topics: ['x'] })
+    const unfiltered = new Contract({ contractAddr, callerAddr, client })
+    const filteredEvents: string[] = []
+    const unfilteredEvents: string[] = []
+    const getKey = (event: IChainEventArgs) =>
+      MapEntry.deserializeBinary(bufferToProtobufBytes(event.data)).getKey()
+    const onFilteredEvent = (event: IChainEventArgs) => filteredEvents.push(getKey(event))
+    const onUnfilteredEvent = (event: IChainEventArgs) => unfilteredEvents.push(getKey(event))
+    filtered.on(Contract.EVENT, onFilteredEvent)
+    unfiltered.on(Contract.EVENT, onUnfilteredEvent)
+
+    await filtered.callAsync('Emit', createMapEntry('1', 'x'))
+    await filtered.callAsync('Emit', createMapEntry('2', 'y'))
+    t.deepEqual(
+      unfilteredEvents,
+      ['1', '2'],
+      'Should deliver all events to contracts without topics, even if another contract has topics'
+    )
+
+    unfiltered.removeListener(Contract.EVENT, onUnfilteredEvent)
+    await filtered.callAsync('Emit', createMapEntry('3', 'x'))
+    await filtered.callAsync('Emit', createMapEntry('4', 'y'))
+    t.deepEqual(
+      filteredEvents.slice(-1),
+      ['3'],
+      'Should only deliver events with matching topics once no one wants all events'
+    )
+    filtered.removeListener(Contract.EVENT, onFilteredEvent)
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
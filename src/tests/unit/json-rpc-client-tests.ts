@@ -0,0 +1,39 @@
+import test from 'tape'
+
+import { Client, ConnectionState, PooledRPCClient } from '../../index'
+import { RecordingRPCClient } from '../../testing'
+import { StubRPCClient } from '../helpers'
+
+test('RPC clients that only implement the required IJSONRPCClient members', async t => {
+  try {
+    const rpcClient = new StubRPCClient('stub://minimal', () => 42)
+    const pool = new PooledRPCClient([rpcClient])
+    const recorder = new RecordingRPCClient(pool, () => undefined)
+    const client = new Client('default', recorder)
+
+    client.addEventTopics(['a'])
+    client.removeEventTopics(['a'])
+    t.pass('Should ignore event topics')
+
+    t.equal(client.connectionState, ConnectionState.Open, 'Should assume the client is connected')
+    client.reconnect()
+    t.pass('Should ignore reconnect requests')
+
+    t.equal(await client.getBlockHeightAsync(), 42, 'Should send requests')
+    const results = await recorder.sendBatchAsync([
+      { method: 'getblockheight', params: {} },
+      { method: 'nonce', params: { key: 'abc' } }
+    ])
+    t.deepEqual(
+      results,
+      [{ result: 42 }, { result: 42 }],
+      'Should send batched requests one by one'
+    )
+    t.deepEqual(recorder.getStats(), {}, 'Should report no request statistics')
+    recorder.resetStats()
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,125 @@
+import test from 'tape'
+
+import {
+  Address,
+  Client,
+  CryptoUtils,
+  LocalAddress,
+  NonceManager,
+  TimeoutError,
+  TxCheckError,
+  createDefaultTxMiddleware
+} from '../../index'
+import { FakeDAppChainClient, FakeFaultKind } from '../../testing'
+import { bufferToProtobufBytes } from '../../crypto-utils'
+import { createContractMethodCallTx } from '../../tx-builder'
+import { MapEntry } from '../tests_pb'
+
+function createStubClient(nonce: number) {
+  const stub = {
+    nonce,
+    fetchCount: 0,
+    getNonceAsync(key: string): Promise<number> {
+      stub.fetchCount++
+      return new Promise(resolve => setTimeout(() => resolve(stub.nonce), 10))
+    }
+  }
+  return stub
+}
+
+test('NonceManager', async t => {
+  try {
+    const client = createStubClient(5)
+    const nonceManager = new NonceManager((client as any) as Client)
+
+    const nonces = await Promise.all([
+      nonceManager.getNextNonceAsync('A'),
+      nonceManager.getNextNonceAsync('A'),
+      nonceManager.getNextNonceAsync('A')
+    ])
+    t.deepEqual(nonces, [6, 7, 8], 'Concurrent callers should get consecutive nonces')
+    t.equal(client.fetchCount, 1, 'Nonce should only be fetched from the DAppChain once')
+
+    t.equal(
+      await nonceManager.getNextNonceAsync('B'),
+      6,
+      'Nonces should be tracked separately for each key'
+    )
+    t.equal(client.fetchCount, 2, 'Nonce should be fetched for each new key')
+
+    client.nonce = 20
+    nonceManager.resync('A')
+    t.equal(
+      await nonceManager.getNextNonceAsync('A'),
+      21,
+      'Nonce should be fetched from the DAppChain after a resync'
+    )
+    t.equal(await nonceManager.getNextNonceAsync('B'), 7, 'Resync should only affect one key')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('NonceManager resync after failed txs', async t => {
+  const fake = new FakeDAppChainClient({ requestTimeout: 10 })
+  const client = new Client('default', fake)
+  try {
+    const entries = new Map<string, string>()
+    const contractAddr = fake.registerContract('MapStore', {
+      Set: (ctx, args) => {
+        const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+        entries.set(entry.getKey(), entry.getValue())
+      }
+    })
+    const privateKey = CryptoUtils.generatePrivateKey()
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+    const otherAddr = new Address('default', LocalAddress.fromHexString('0x' + '01'.repeat(20)))
+    client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+    client.nonceManager = new NonceManager(client)
+    client.nonceRetryStrategy = { retries: 0 }
+    const setAsync = (caller: Address, key: string) => {
+      const entry = new MapEntry()
+      entry.setKey(key)
+      entry.setValue(key)
+      return client.commitTxAsync(createContractMethodCallTx(caller, contractAddr, 'Set', entry))
+    }
+
+    await setAsync(callerAddr, 'a')
+    try {
+      await setAsync(otherAddr, 'b')
+      t.fail('Tx from the wrong caller should be rejected')
+    } catch (err) {
+      t.ok(err instanceof TxCheckError, 'Tx should be rejected by CheckTx')
+    }
+    await setAsync(callerAddr, 'c')
+    t.equal(entries.get('c'), 'c', 'Should resync the nonce after a tx is rejected by CheckTx')
+
+    fake.injectFault({ kind: FakeFaultKind.NetworkError, method: 'broadcast_tx_commit' })
+    try {
+      await setAsync(callerAddr, 'd')
+      t.fail('Tx should fail to reach the DAppChain')
+    } catch (err) {
+      t.equal(err.code, 'ECONNREFUSED', 'Should reject with the network error')
+    }
+    fake.injectFault({ kind: FakeFaultKind.Timeout, method: 'broadcast_tx_commit' })
+    try {
+      await setAsync(callerAddr, 'e')
+      t.fail('Tx should time out')
+    } catch (err) {
+      t.ok(err instanceof TimeoutError, 'Should reject with TimeoutError')
+    }
+    await setAsync(callerAddr, 'f')
+    t.equal(entries.get('f'), 'f', 'Should resync the nonce after failing to send a tx')
+    t.equal(
+      await client.getNonceAsync(CryptoUtils.bytesToHex(publicKey)),
+      3,
+      'Only the txs that were accepted should use up nonces'
+    )
+  } catch (err) {
+    t.fail(err)
+  }
+  client.disconnect()
+  t.end()
+})
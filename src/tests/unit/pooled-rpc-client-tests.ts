@@ -0,0 +1,139 @@
+import test from 'tape'
+import EventEmitter from 'events'
+
+import { IJSONRPCClient, PooledRPCClient, PoolRoutingStrategy, RPCError } from '../../index'
+import { RPCClientEvent } from '../../internal/json-rpc-client'
+
+function createStubClient(url: string, delay: number = 0) {
+  const stub = Object.assign(new EventEmitter(), {
+    url,
+    requestTimeout: 1000,
+    isSubscribed: false,
+    isDown: false,
+    sent: [] as string[],
+    filters: [] as string[],
+    disconnect() {
+      // nothing to close
+    },
+    ensureConnectionAsync(): Promise<void> {
+      return Promise.resolve()
+    },
+    sendAsync<T>(method: string, params: any): Promise<T> {
+      stub.sent.push(method)
+      return new Promise<T>((resolve, reject) =>
+        setTimeout(() => {
+          if (stub.isDown) {
+            reject(new Error('connect ECONNREFUSED'))
+          } else if (method === 'bad') {
+            reject(new RPCError(-32601, 'Method not found', ''))
+          } else if (method === 'newevmfilter') {
+            stub.filters.push(`${url}/filter`)
+            resolve((`${url}/filter` as any) as T)
+          } else if (method === 'getevmfilterchanges' && stub.filters.indexOf(params.id) === -1) {
+            reject(new RPCError(-32000, 'filter not found', ''))
+          } else {
+            resolve((url as any) as T)
+          }
+        }, delay)
+      )
+    },
+    sendBatchAsync(requests: any[]) {
+      return Promise.resolve([])
+    }
+  })
+  return stub
+}
+
+test('PooledRPCClient', async t => {
+  try {
+    const a = createStubClient('stub://a')
+    const b = createStubClient('stub://b')
+    const c = createStubClient('stub://c')
+    const pool = new PooledRPCClient(([a, b, c] as any[]) as IJSONRPCClient[], { coolDown: 50 })
+
+    const urls = []
+    for (let i = 0; i < 4; i++) {
+      urls.push(await pool.sendAsync('nonce', {}))
+    }
+    t.deepEqual(
+      urls,
+      ['stub://a', 'stub://b', 'stub://c', 'stub://a'],
+      'Should cycle through the endpoints'
+    )
+
+    const healthEvents: any[] = []
+    pool.on(RPCClientEvent.EndpointHealth, (url: string, isHealthy: boolean) =>
+      healthEvents.push([url, isHealthy])
+    )
+    b.isDown = true
+    t.equal(await pool.sendAsync('nonce', {}), 'stub://c', 'Should fail over to the next endpoint')
+    t.deepEqual(healthEvents, [['stub://b', false]], 'Should report the unhealthy endpoint')
+    t.deepEqual(pool.healthyUrls, ['stub://a', 'stub://c'], 'Should skip the unhealthy endpoint')
+
+    try {
+      await pool.sendAsync('bad', {})
+      t.fail('sendAsync() should throw')
+    } catch (err) {
+      t.ok(err instanceof RPCError, 'Should not fail over on JSON-RPC errors')
+    }
+    t.deepEqual(pool.healthyUrls, ['stub://a', 'stub://c'], 'JSON-RPC errors are not failures')
+
+    const sentToB = b.sent.length
+    try {
+      a.isDown = true
+      c.isDown = true
+      await pool.sendAsync('broadcast_tx_commit', [])
+      t.fail('sendAsync() should throw')
+    } catch (err) {
+      t.equal(b.sent.length, sentToB, 'Should not resend broadcasts to other endpoints')
+    }
+    a.isDown = false
+    c.isDown = false
+
+    b.isDown = false
+    await new Promise(resolve => setTimeout(resolve, 60))
+    const results = [await pool.sendAsync('nonce', {}), await pool.sendAsync('nonce', {})]
+    t.ok(results.indexOf('stub://b') !== -1, 'Should retry the endpoint after the cool-down')
+    t.deepEqual(
+      healthEvents[healthEvents.length - 1],
+      ['stub://b', true],
+      'Should report recovery'
+    )
+
+    const slow = createStubClient('stub://slow', 20)
+    const fast = createStubClient('stub://fast', 0)
+    const latencyPool = new PooledRPCClient(([slow, fast] as any[]) as IJSONRPCClient[], {
+      strategy: PoolRoutingStrategy.LowestLatency
+    })
+    await latencyPool.sendAsync('nonce', {})
+    await latencyPool.sendAsync('nonce', {})
+    t.deepEqual(
+      [slow.sent.length, fast.sent.length],
+      [1, 1],
+      'Should measure each endpoint before comparing latencies'
+    )
+    for (let i = 0; i < 3; i++) {
+      await latencyPool.sendAsync('nonce', {})
+    }
+    t.deepEqual(
+      [slow.sent.length, fast.sent.length],
+      [1, 4],
+      'Should prefer the measured endpoint with the lowest latency'
+    )
+
+    const filterPool = new PooledRPCClient(([a, b] as any[]) as IJSONRPCClient[])
+    const filterId = await filterPool.sendAsync<string>('newevmfilter', {})
+    await filterPool.sendAsync('getevmfilterchanges', { id: filterId })
+    await filterPool.sendAsync('getevmfilterchanges', { id: filterId })
+    await filterPool.sendAsync('uninstallevmfilter', { id: filterId })
+    t.equal(filterId, 'stub://a/filter', 'Should create filters via the event endpoint')
+    t.deepEqual(
+      b.sent.filter(method => /evmfilter/.test(method)),
+      [],
+      'Should poll & remove filters via the endpoint that created them'
+    )
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
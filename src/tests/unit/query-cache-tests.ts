@@ -0,0 +1,167 @@
+import test from 'tape'
+
+import { Client, ClientEvent, QueryCache, Address, LocalAddress } from '../../index'
+import { StubRPCClient } from '../helpers'
+
+/**
+ * Creates an RPC client that reports the given block height, and answers all queries with the
+ * same result.
+ */
+function createStubRPCClient(chain: { height: number }) {
+  return new StubRPCClient('stub://cache', (method, params) => {
+    if (method === 'getblockheight') {
+      return chain.height
+    } else if (method === 'resolve') {
+      return params.name === 'Known' ? 'default:0x' + '01'.repeat(20) : null
+    }
+    return 'AQID'
+  })
+}
+
+test('QueryCache', async t => {
+  try {
+    const chain = { height: 1 }
+    const rpcClient = createStubRPCClient(chain)
+    const client = new Client('default', rpcClient)
+    const cache = new QueryCache({ maxEntries: 2 })
+    client.queryMiddleware.push(cache)
+
+    const contractA = new Address('default', LocalAddress.fromHexString('0x' + '0a'.repeat(20)))
+    const contractB = new Address('default', LocalAddress.fromHexString('0x' + '0b'.repeat(20)))
+    const query = new Uint8Array([1, 2, 3])
+    const countSent = (method: string) =>
+      rpcClient.requests.filter(request => request.method === method).length
+
+    await client.getBlockHeightAsync()
+    t.equal(cache.blockHeight, 1, 'Should track the block height')
+
+    await client.queryAsync(contractA, query)
+    const result = await client.queryAsync(contractA, query)
+    t.deepEqual(Array.from(result as Uint8Array), [1, 2, 3], 'Should return cached response')
+    t.equal(countSent('query'), 1, 'Identical queries should only be sent once')
+    t.deepEqual(cache.stats, { hits: 1, misses: 1, evictions: 0, size: 1 }, 'Should count hits')
+
+    await client.queryAsync(contractA, query, undefined, undefined, { bypassCache: true })
+    t.equal(countSent('query'), 2, 'Should skip the cache when requested')
+
+    await client.queryAsync(contractB, query)
+    t.equal(countSent('query'), 3, 'Queries to other contracts should not be answered from cache')
+
+    chain.height = 2
+    await client.getBlockHeightAsync()
+    await client.queryAsync(contractA, query)
+    t.equal(countSent('query'), 4, 'Cached queries should be dropped when the height moves')
+
+    await client.getContractAddressAsync('Known')
+    await client.getContractAddressAsync('Known')
+    t.equal(countSent('resolve'), 1, 'Resolved contract addresses should be cached')
+    chain.height = 3
+    await client.getBlockHeightAsync()
+    await client.getContractAddressAsync('Known')
+    t.equal(countSent('resolve'), 1, 'Resolved contract addresses should survive height changes')
+
+    await client.getContractAddressAsync('Unknown')
+    await client.getContractAddressAsync('Unknown')
+    t.equal(countSent('resolve'), 3, 'Failed contract name resolutions should not be cached')
+
+    await client.queryAsync(contractA, query)
+    await client.queryAsync(contractB, query)
+    t.ok(cache.stats.size <= 2, 'Should not exceed the maximum number of entries')
+    t.ok(cache.stats.evictions > 0, 'Should count evictions')
+
+    cache.resetStats()
+    t.deepEqual(
+      cache.stats,
+      { hits: 0, misses: 0, evictions: 0, size: cache.stats.size },
+      'Should reset stats'
+    )
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('QueryCache expiry', async t => {
+  try {
+    const rpcClient = createStubRPCClient({ height: 1 })
+    const client = new Client('default', rpcClient)
+    const cache = new QueryCache({ maxAge: 20, resolveMaxAge: 20 })
+    client.queryMiddleware.push(cache)
+
+    const contract = new Address('default', LocalAddress.fromHexString('0x' + '0a'.repeat(20)))
+    const query = new Uint8Array([1, 2, 3])
+    const countSent = (method: string) =>
+      rpcClient.requests.filter(request => request.method === method).length
+
+    await client.queryAsync(contract, query)
+    await client.getContractAddressAsync('Known')
+    await client.queryAsync(contract, query)
+    await client.getContractAddressAsync('Known')
+    t.equal(countSent('query'), 1, 'Should answer queries from the cache until they expire')
+    await new Promise(resolve => setTimeout(resolve, 30))
+    await client.queryAsync(contract, query)
+    t.equal(countSent('query'), 2, 'Should drop expired queries, even if the height has not moved')
+    await client.getContractAddressAsync('Known')
+    t.equal(countSent('resolve'), 2, 'Should drop expired contract name resolutions')
+
+    cache.setBlockHeight(('5' as any) as number)
+    cache.setBlockHeight(('10' as any) as number)
+    cache.setBlockHeight(('9' as any) as number)
+    t.equal(cache.blockHeight, 10, 'Should compare heights numerically, even if given strings')
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('QueryCache watching a client', async t => {
+  try {
+    const chain = { height: 1 }
+    const rpcClient = createStubRPCClient(chain)
+    const client = new Client('default', rpcClient)
+    const cache = new QueryCache({ heightPollInterval: 10 })
+    client.queryMiddleware.push(cache)
+    cache.watch(client)
+
+    const contract = new Address('default', LocalAddress.fromHexString('0x' + '0a'.repeat(20)))
+    const query = new Uint8Array([1, 2, 3])
+    const countSent = (method: string) =>
+      rpcClient.requests.filter(request => request.method === method).length
+
+    await new Promise(resolve => setTimeout(resolve, 30))
+    t.equal(cache.blockHeight, 1, 'Should poll the block height')
+    await client.queryAsync(contract, query)
+    await client.queryAsync(contract, query)
+    t.equal(
+      countSent('query'),
+      1,
+      'Should answer queries from the cache while the height is the same'
+    )
+
+    // e.g. a tx committed by another client
+    chain.height = 2
+    await new Promise(resolve => setTimeout(resolve, 30))
+    await client.queryAsync(contract, query)
+    t.equal(countSent('query'), 2, 'Should drop cached queries once polling finds a new block')
+
+    cache.unwatch(client)
+    const polls = countSent('getblockheight')
+    await new Promise(resolve => setTimeout(resolve, 30))
+    t.equal(countSent('getblockheight'), polls, 'Should stop polling once the client is unwatched')
+
+    const txCache = new QueryCache({ heightPollInterval: 0 })
+    txCache.watch(client)
+    client.emit(ClientEvent.TxCommitted, { height: 5 })
+    t.equal(txCache.blockHeight, 5, 'Should track the height of committed txs')
+    txCache.unwatch(client)
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,56 @@
+import test from 'tape'
+
+import { Client, IQueryMiddlewareHandler } from '../../index'
+import { StubRPCClient } from '../helpers'
+
+test('Client query middleware', async t => {
+  try {
+    const rpcClient = new StubRPCClient('stub://query', () => 42)
+    const client = new Client('default', rpcClient)
+    const seen: string[] = []
+
+    const logger: IQueryMiddlewareHandler = {
+      async Handle(request, next) {
+        seen.push(`request:${request.method}`)
+        const result = await next(request)
+        seen.push(`response:${result}`)
+        return result
+      }
+    }
+    const rewriter: IQueryMiddlewareHandler = {
+      Handle(request, next) {
+        return next({ method: request.method, params: { key: 'rewritten' } })
+      }
+    }
+    client.queryMiddleware = [logger, rewriter]
+
+    t.equal(await client.getNonceAsync('abc'), 42, 'Should return the response from the node')
+    t.deepEqual(
+      seen,
+      ['request:nonce', 'response:42'],
+      'Middleware should see the request and the response'
+    )
+    t.deepEqual(
+      rpcClient.requests.map(({ method, params }) => ({ method, params })),
+      [{ method: 'nonce', params: { key: 'rewritten' } }],
+      'Middleware should be able to rewrite the request'
+    )
+
+    const responder: IQueryMiddlewareHandler = {
+      Handle(request, next) {
+        if (request.method === 'getblockheight') {
+          return Promise.resolve(7)
+        }
+        return next(request)
+      }
+    }
+    client.queryMiddleware = [responder]
+    t.equal(await client.getBlockHeightAsync(), 7, 'Middleware should be able to answer a request')
+    t.equal(rpcClient.requests.length, 1, 'Answered request should not be sent to the node')
+
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
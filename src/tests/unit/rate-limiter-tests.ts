@@ -0,0 +1,105 @@
+import test from 'tape'
+
+import { RateLimiter, RequestPriority } from '../../internal/rate-limiter'
+import { RateLimitError, CancelledError } from '../../errors'
+import { CancellationToken } from '../../cancellation'
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/** Creates a request that only completes when the returned complete() function is called. */
+function createPendingRequest() {
+  let complete: () => void
+  const promise = new Promise<void>(resolve => (complete = resolve))
+  return { send: () => promise, complete: () => complete() }
+}
+
+test('RateLimiter concurrency & priority', async t => {
+  try {
+    const limiter = new RateLimiter({ maxConcurrent: 1 })
+    const sent: string[] = []
+    const first = createPendingRequest()
+    const p1 = limiter.runAsync('a', () => {
+      sent.push('first')
+      return first.send()
+    })
+    const send = (name: string) => () => {
+      sent.push(name)
+      return Promise.resolve()
+    }
+    const p2 = limiter.runAsync('a', send('low'), { priority: RequestPriority.Low })
+    const p3 = limiter.runAsync('a', send('normal1'))
+    const p4 = limiter.runAsync('a', send('high'), { priority: RequestPriority.High })
+    const p5 = limiter.runAsync('a', send('normal2'))
+    await delay(0)
+    t.deepEqual(sent, ['first'], 'Should hold back requests over the concurrency limit')
+    t.equal(limiter.queueLength, 4, 'Should queue the held back requests')
+
+    first.complete()
+    await Promise.all([p1, p2, p3, p4, p5])
+    t.deepEqual(
+      sent,
+      ['first', 'high', 'normal1', 'normal2', 'low'],
+      'Should send held back requests in order of priority, then in FIFO order'
+    )
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('RateLimiter rate & per-method limits', async t => {
+  try {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 1000,
+      methods: { getevmfilterchanges: { requestsPerSecond: 10, burst: 1 } }
+    })
+    const sent: string[] = []
+    const send = (name: string) => () => {
+      sent.push(name)
+      return Promise.resolve()
+    }
+    const start = Date.now()
+    const polls = Promise.all([
+      limiter.runAsync('getevmfilterchanges', send('poll1')),
+      limiter.runAsync('getevmfilterchanges', send('poll2'))
+    ])
+    await limiter.runAsync('query', send('query'))
+    t.deepEqual(
+      sent,
+      ['poll1', 'query'],
+      'Should not hold back other methods when a method is over its limit'
+    )
+    await polls
+    t.ok(Date.now() - start >= 90, 'Should wait for the token bucket to refill')
+
+    const slowLimiter = new RateLimiter({ maxConcurrent: 1, maxWait: 10 })
+    const pending = createPendingRequest()
+    const held = slowLimiter.runAsync('query', pending.send)
+    try {
+      await slowLimiter.runAsync('query', () => Promise.resolve())
+      t.fail('Should reject requests held back for longer than maxWait')
+    } catch (err) {
+      t.ok(err instanceof RateLimitError, 'Should reject with RateLimitError')
+    }
+
+    const token = new CancellationToken()
+    const cancelled = slowLimiter.runAsync('query', () => Promise.resolve(), {
+      cancellationToken: token
+    })
+    token.cancel()
+    try {
+      await cancelled
+      t.fail('Should reject cancelled requests')
+    } catch (err) {
+      t.ok(err instanceof CancelledError, 'Should stop holding back cancelled requests')
+    }
+    t.equal(slowLimiter.queueLength, 0, 'Should remove rejected requests from the queue')
+    pending.complete()
+    await held
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
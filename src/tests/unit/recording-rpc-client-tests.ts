@@ -0,0 +1,105 @@
+import test from 'tape'
+
+import {
+  Address,
+  Client,
+  ClientEvent,
+  Contract,
+  CryptoUtils,
+  IChainEventArgs,
+  LocalAddress,
+  TimeoutError,
+  createDefaultTxMiddleware
+} from '../../index'
+import {
+  FakeDAppChainClient,
+  FakeFaultKind,
+  RecordingRPCClient,
+  ReplayRPCClient
+} from '../../testing'
+import { bufferToProtobufBytes } from '../../crypto-utils'
+import { MapEntry } from '../tests_pb'
+
+function createMapEntry(key: string, value: string = ''): MapEntry {
+  const entry = new MapEntry()
+  entry.setKey(key)
+  entry.setValue(value)
+  return entry
+}
+
+/** Runs the same session against the given RPC client, returns what the app saw. */
+async function runSessionAsync(rpcClient: any, contractAddr: Address) {
+  const client = new Client('default', rpcClient)
+  client.nonceRetryStrategy = { retries: 0, minTimeout: 1, maxTimeout: 1 }
+  const privateKey = CryptoUtils.generatePrivateKey()
+  const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+  client.txMiddleware = createDefaultTxMiddleware(client, privateKey)
+  const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+  const contract = new Contract({ contractAddr, callerAddr, client })
+  const events: string[] = []
+  client.on(ClientEvent.Contract, (event: IChainEventArgs) =>
+    events.push(MapEntry.deserializeBinary(bufferToProtobufBytes(event.data)).getKey())
+  )
+
+  await contract.callAsync('Set', createMapEntry('a', '1'))
+  const output = await contract.staticCallAsync('Get', createMapEntry('a'), new MapEntry())
+  let error: any = null
+  try {
+    await contract.staticCallAsync('Get', createMapEntry('a'), new MapEntry())
+  } catch (err) {
+    error = err
+  }
+  await new Promise(resolve => setTimeout(resolve, 10))
+  client.disconnect()
+  return { value: output.getValue(), error, events }
+}
+
+test('RecordingRPCClient & ReplayRPCClient', async t => {
+  try {
+    const fake = new FakeDAppChainClient({ requestTimeout: 5 })
+    const entries = new Map<string, string>()
+    const contractAddr = fake.registerContract('MapStore', {
+      Set: (ctx, args) => {
+        const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+        entries.set(entry.getKey(), entry.getValue())
+        ctx.emitEvent(args, ['map:set'])
+      },
+      Get: (ctx, args) => {
+        const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+        entry.setValue(entries.get(entry.getKey()) || '')
+        // the second query times out
+        fake.injectFault({ kind: FakeFaultKind.Timeout, method: 'query' })
+        return entry.serializeBinary()
+      }
+    })
+
+    const lines: string[] = []
+    const recorder = new RecordingRPCClient(fake, line => lines.push(line))
+    const recorded = await runSessionAsync(recorder, contractAddr)
+    t.equal(recorded.value, '1', 'Should pass requests through to the wrapped client')
+    t.deepEqual(recorded.events, ['a'], 'Should pass event messages through')
+    t.ok(lines.every(line => /\n$/.test(line)), 'Should write a line per record')
+    t.deepEqual(
+      lines.map(line => JSON.parse(line).type).filter(type => type === 'event'),
+      ['event'],
+      'Should record event messages'
+    )
+
+    const replay = ReplayRPCClient.fromJSONLines(lines.join(''), { timeScale: 0 })
+    const replayed = await runSessionAsync(replay, contractAddr)
+    t.equal(replayed.value, recorded.value, 'Should replay the recorded responses')
+    t.ok(replayed.error instanceof TimeoutError, 'Should replay the recorded errors')
+    t.deepEqual(replayed.events, recorded.events, 'Should replay the recorded events')
+    t.equal(replay.remainingRequests, 0, 'Should replay every recorded request')
+
+    try {
+      await replay.sendAsync('getblockheight', {})
+      t.fail('Should fail requests that were not recorded')
+    } catch (err) {
+      t.ok(/No recorded request/.test(err.message), 'Should explain why the request failed')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,60 @@
+import test from 'tape'
+
+import { RequestBatcher } from '../../internal/request-batcher'
+import { IJSONRPCBatchRequest } from '../../internal/json-rpc-client'
+
+test('RequestBatcher', async t => {
+  try {
+    const singles: string[] = []
+    const batches: IJSONRPCBatchRequest[][] = []
+    const batcher = new RequestBatcher(
+      <T>(method: string, params: any) => {
+        singles.push(method)
+        return Promise.resolve((`${method}-result` as any) as T)
+      },
+      requests => {
+        batches.push(requests)
+        return Promise.resolve(
+          requests.map(
+            req =>
+              req.method === 'bad' ? { error: new Error('bad request') } : { result: req.params }
+          )
+        )
+      },
+      3
+    )
+
+    const results = await Promise.all([
+      batcher.sendAsync('a', [1]),
+      batcher.sendAsync('b', [2]),
+      batcher.sendAsync('bad', [3]).catch(err => err.message)
+    ])
+    t.equal(batches.length, 1, 'Requests made in the same tick should be sent in one batch')
+    t.deepEqual(
+      batches[0].map(req => req.method),
+      ['a', 'b', 'bad'],
+      'Batch should contain all the requests in order'
+    )
+    t.deepEqual(
+      results,
+      [[1], [2], 'bad request'],
+      'Each caller should receive the outcome of its own request'
+    )
+
+    await Promise.all([
+      batcher.sendAsync('c', []),
+      batcher.sendAsync('d', []),
+      batcher.sendAsync('e', []),
+      batcher.sendAsync('f', [])
+    ])
+    t.deepEqual(
+      batches.slice(1).map(batch => batch.length),
+      [3],
+      'Batches should not exceed the maximum size'
+    )
+    t.deepEqual(singles, ['f'], 'A lone request should not be sent as a batch')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
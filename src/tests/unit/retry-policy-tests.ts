@@ -0,0 +1,79 @@
+import test from 'tape'
+
+import { TimeoutError, RPCError, isTransientError } from '../../index'
+import { sendWithRetryAsync, IRetryPolicy } from '../../internal/retry-policy'
+
+function createFlakySender(failures: any[]) {
+  const sender = {
+    attempts: 0,
+    send(): Promise<string> {
+      sender.attempts++
+      const err = failures.shift()
+      return err ? Promise.reject(err) : Promise.resolve('ok')
+    }
+  }
+  return sender
+}
+
+test('Retry policy', async t => {
+  const policy: IRetryPolicy = { retries: 2, minTimeout: 1, maxTimeout: 1 }
+  try {
+    t.ok(isTransientError(new TimeoutError('timeout')), 'Timeouts are transient')
+    t.ok(isTransientError({ code: 'ECONNRESET' }), 'Connection resets are transient')
+    t.ok(isTransientError({ response: { status: 502 } }), 'Server errors are transient')
+    t.notOk(isTransientError({ response: { status: 400 } }), 'Client errors are not transient')
+    t.notOk(isTransientError(new RPCError(-32603, 'Internal error', '')), 'RPC errors are not')
+
+    let sender = createFlakySender([{ code: 'ECONNRESET' }, new TimeoutError('timeout')])
+    t.equal(
+      await sendWithRetryAsync(policy, 'query', sender.send),
+      'ok',
+      'Should resend reads that fail with transient errors'
+    )
+    t.equal(sender.attempts, 3, 'Should resend until the request succeeds')
+
+    sender = createFlakySender([new RPCError(-32603, 'Internal error', '')])
+    try {
+      await sendWithRetryAsync(policy, 'query', sender.send)
+      t.fail('Should throw')
+    } catch (err) {
+      t.equal(sender.attempts, 1, 'Should not resend requests that fail with other errors')
+    }
+
+    sender = createFlakySender([1, 2, 3].map(() => new TimeoutError('timeout')))
+    try {
+      await sendWithRetryAsync(policy, 'query', sender.send)
+      t.fail('Should throw')
+    } catch (err) {
+      t.ok(err instanceof TimeoutError, 'Should throw the last error once retries run out')
+      t.equal(sender.attempts, 3, 'Should give up after the configured number of retries')
+    }
+
+    sender = createFlakySender([new TimeoutError('timeout')])
+    try {
+      await sendWithRetryAsync(policy, 'broadcast_tx_commit', sender.send)
+      t.fail('Should throw')
+    } catch (err) {
+      t.equal(sender.attempts, 1, 'Should not resend broadcasts by default')
+    }
+
+    sender = createFlakySender([new TimeoutError('timeout')])
+    await sendWithRetryAsync(
+      { ...policy, retryBroadcast: true },
+      'broadcast_tx_commit',
+      sender.send
+    )
+    t.equal(sender.attempts, 2, 'Should resend broadcasts when opted in')
+
+    sender = createFlakySender([new TimeoutError('timeout')])
+    try {
+      await sendWithRetryAsync(undefined, 'query', sender.send)
+      t.fail('Should throw')
+    } catch (err) {
+      t.equal(sender.attempts, 1, 'Should not resend anything without a policy')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
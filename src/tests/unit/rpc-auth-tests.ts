@@ -0,0 +1,96 @@
+import test from 'tape'
+import axios from 'axios'
+
+import { HTTPRPCClient } from '../../internal/http-rpc-client'
+import { WSRPCClient } from '../../internal/ws-rpc-client'
+import { stubWSConnections } from '../helpers'
+
+test('HTTPRPCClient auth', async t => {
+  const post = axios.post
+  try {
+    let nextToken = 1
+    let validToken = 'token1'
+    const sent: any[] = []
+    ;(axios as any).post = (url: string, body: any, config: any) => {
+      sent.push(config.headers)
+      if (config.headers['Authorization'] !== `Bearer ${validToken}`) {
+        const err: any = new Error('Request failed with status code 401')
+        err.response = { status: 401 }
+        return Promise.reject(err)
+      }
+      return Promise.resolve({ data: { jsonrpc: '2.0', id: body.id, result: 'ok' } })
+    }
+    const client = new HTTPRPCClient('http://localhost', {
+      auth: {
+        headers: { 'X-Api-Key': 'key' },
+        getAuthTokenAsync: () => Promise.resolve(`token${nextToken++}`)
+      }
+    })
+
+    await client.sendAsync('query', {})
+    await client.sendAsync('query', {})
+    t.deepEqual(
+      sent[0],
+      { 'X-Api-Key': 'key', Authorization: 'Bearer token1' },
+      'Should send the static headers and the bearer token'
+    )
+    t.equal(nextToken, 2, 'Should reuse the token until it is rejected')
+
+    validToken = 'token2'
+    t.equal(await client.sendAsync('query', {}), 'ok', 'Should resend requests rejected with 401')
+    t.equal(sent[3]['Authorization'], 'Bearer token2', 'Should request a new token after a 401')
+
+    validToken = 'nope'
+    try {
+      await client.sendAsync('query', {})
+      t.fail('Should only resend a rejected request once')
+    } catch (err) {
+      t.equal(err.response.status, 401, 'Should fail if the new token is rejected too')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  ;(axios as any).post = post
+  t.end()
+})
+
+test('WSRPCClient auth', async t => {
+  try {
+    let nextToken = 1
+    const client = new WSRPCClient('ws://localhost/queryws', {
+      autoConnect: false,
+      reconnectInterval: 0,
+      auth: {
+        headers: { 'X-Api-Key': 'key' },
+        getAuthTokenAsync: () => Promise.resolve(`token${nextToken++}`),
+        authTokenQueryParam: 'token'
+      }
+    })
+    const connections = stubWSConnections(client)
+    client.reconnect()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    t.deepEqual(
+      connections.map(({ url, headers }) => ({ url, headers })),
+      [
+        {
+          url: 'ws://localhost/queryws?token=token1',
+          headers: { 'X-Api-Key': 'key', Authorization: 'Bearer token1' }
+        }
+      ],
+      'Should pass the token in the handshake headers and the query string'
+    )
+
+    connections[0].open()
+    connections[0].emit('close', 1006)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    t.equal(
+      connections[1].url,
+      'ws://localhost/queryws?token=token2',
+      'Should request a new token when reconnecting'
+    )
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
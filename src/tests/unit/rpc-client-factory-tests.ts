@@ -4,6 +4,7 @@ import { createJSONRPCClient } from '../../index'
 import { HTTPRPCClient } from '../../internal/http-rpc-client'
 import { WSRPCClient } from '../../internal/ws-rpc-client'
 import { DualRPCClient } from '../../internal/dual-rpc-client'
+import { PooledRPCClient } from '../../internal/pooled-rpc-client'
 import { RPCClientEvent } from '../../internal/json-rpc-client'
 
 test('RPC Client Factory', t => {
@@ -45,6 +46,22 @@ test('RPC Client Factory', t => {
       autoConnect
     })
     t.ok(client instanceof DualRPCClient, 'Should create DualRPCClient for https + ws urls')
+
+    client = createJSONRPCClient({
+      protocols: [{ url: 'http://replica1' }, { url: 'http://replica2' }],
+      autoConnect
+    })
+    t.ok(client instanceof PooledRPCClient, 'Should create PooledRPCClient for http + http urls')
+
+    client = createJSONRPCClient({
+      protocols: [
+        { url: 'ws://localhost' },
+        { url: 'http://replica1' },
+        { url: 'http://replica2' }
+      ],
+      autoConnect
+    })
+    t.ok(client instanceof PooledRPCClient, 'Should create PooledRPCClient for 3 urls')
   } catch (err) {
     t.fail(err)
   }
@@ -0,0 +1,89 @@
+import test from 'tape'
+
+import { RPCMetrics, mergeRPCStats } from '../../internal/rpc-metrics'
+import { WSRPCClient } from '../../internal/ws-rpc-client'
+import { RPCClientEvent } from '../../internal/json-rpc-client'
+import { TimeoutError, CancelledError } from '../../errors'
+
+test('RPCMetrics', async t => {
+  try {
+    const metrics = new RPCMetrics()
+    metrics.record('query', 3)
+    metrics.record('query', 40, new Error('boom'))
+    metrics.record('query', 20000, new TimeoutError('timeout'))
+    metrics.record('nonce', 7)
+
+    const stats = metrics.getStats()
+    t.deepEqual(Object.keys(stats).sort(), ['nonce', 'query'], 'Should record stats per method')
+    t.equal(stats.query.count, 3, 'Should count requests')
+    t.equal(stats.query.errors, 2, 'Should count errors')
+    t.equal(stats.query.timeouts, 1, 'Should count timeouts')
+    t.equal(stats.query.totalLatency, 20043, 'Should sum latencies')
+    t.equal(stats.query.maxLatency, 20000, 'Should track the max latency')
+    t.deepEqual(
+      stats.query.histogram.filter(b => b.count > 0).map(b => b.le),
+      [5, 50, Infinity],
+      'Should put latencies in the right histogram buckets'
+    )
+
+    stats.query.count = 100
+    t.equal(metrics.getStats().query.count, 3, 'Should return a snapshot')
+
+    const merged = mergeRPCStats([metrics.getStats(), metrics.getStats()])
+    t.equal(merged.query.count, 6, 'Should merge request counts')
+    t.equal(merged.nonce.histogram[1].count, 2, 'Should merge histograms')
+
+    try {
+      await metrics.measureAsync(
+        'nonce',
+        () => Promise.reject(new CancelledError()),
+        () => t.fail('Should not report cancelled requests')
+      )
+    } catch (err) {
+      // expected
+    }
+    t.equal(metrics.getStats().nonce.count, 1, 'Should not record cancelled requests')
+
+    metrics.reset()
+    t.deepEqual(metrics.getStats(), {}, 'Should discard the stats on reset')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('WSRPCClient request stats', async t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', { autoConnect: false })
+    // stub out the transport, this client never actually connects
+    ;(client as any)._sendAsync = (method: string) =>
+      method === 'query' ? Promise.resolve('ok') : Promise.reject(new TimeoutError('timeout'))
+    const completed: any[] = []
+    client.on(
+      RPCClientEvent.RequestCompleted,
+      (url: string, method: string, latency: number, err?: any) =>
+        completed.push({ method, failed: !!err })
+    )
+
+    await client.sendAsync('query', {})
+    try {
+      await client.sendAsync('nonce', {})
+    } catch (err) {
+      // expected
+    }
+    t.deepEqual(
+      completed,
+      [{ method: 'query', failed: false }, { method: 'nonce', failed: true }],
+      'Should emit an event after each request completes'
+    )
+    const stats = client.getStats()
+    t.equal(stats.query.count, 1, 'Should record successful requests')
+    t.equal(stats.nonce.timeouts, 1, 'Should record timed out requests')
+
+    client.resetStats()
+    t.deepEqual(client.getStats(), {}, 'Should reset the stats')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,155 @@
+import test from 'tape'
+import axios from 'axios'
+
+import {
+  Address,
+  Client,
+  Contract,
+  CryptoUtils,
+  LocalAddress,
+  LocalSigner,
+  LoomProvider,
+  RemoteSigner,
+  SignedTxMiddleware,
+  createDefaultTxMiddleware
+} from '../../index'
+import { FakeDAppChainClient } from '../../testing'
+import { B64ToUint8Array, Uint8ArrayToB64, bufferToProtobufBytes } from '../../crypto-utils'
+import { SignedTx } from '../../proto/loom_pb'
+import { MapEntry } from '../tests_pb'
+
+/**
+ * Replaces axios.get & axios.post with a stub signing service that holds the given private key,
+ * returns the requests the service received.
+ */
+function stubSigningService(url: string, privateKey: Uint8Array) {
+  const requests: any[] = []
+  ;(axios as any).get = (reqUrl: string, config: any) => {
+    requests.push({ url: reqUrl, headers: config.headers })
+    if (reqUrl !== `${url}/publickey`) {
+      return Promise.reject(new Error('Request failed with status code 404'))
+    }
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    return Promise.resolve({ data: { publicKey: Uint8ArrayToB64(publicKey) } })
+  }
+  ;(axios as any).post = (reqUrl: string, body: any, config: any) => {
+    requests.push({ url: reqUrl, headers: config.headers })
+    if (reqUrl !== `${url}/sign`) {
+      return Promise.reject(new Error('Request failed with status code 404'))
+    }
+    const signature = CryptoUtils.sign(B64ToUint8Array(body.data), privateKey)
+    return Promise.resolve({ data: { signature: Uint8ArrayToB64(signature) } })
+  }
+  return requests
+}
+
+test('RemoteSigner', async t => {
+  const get = axios.get
+  const post = axios.post
+  try {
+    const privateKey = CryptoUtils.generatePrivateKey()
+    const requests = stubSigningService('http://signer', privateKey)
+    const signer = new RemoteSigner('http://signer', { headers: { 'X-Api-Key': 'key' } })
+    const localSigner = new LocalSigner(privateKey)
+    const data = new Uint8Array([1, 2, 3])
+
+    t.deepEqual(
+      await signer.getPublicKeyAsync(),
+      await localSigner.getPublicKeyAsync(),
+      'Should fetch the public key from the signing service'
+    )
+    await signer.getPublicKeyAsync()
+    t.equal(requests.length, 1, 'Should cache the public key')
+    t.deepEqual(
+      await signer.signAsync(data),
+      await localSigner.signAsync(data),
+      'Should sign data with the signing service'
+    )
+    t.deepEqual(requests[1].headers, { 'X-Api-Key': 'key' }, 'Should send the configured headers')
+
+    const middleware = new SignedTxMiddleware(signer)
+    const signedTx = SignedTx.deserializeBinary(await middleware.Handle(data))
+    const expectedTx = SignedTx.deserializeBinary(
+      await new SignedTxMiddleware(privateKey).Handle(data)
+    )
+    t.deepEqual(
+      signedTx.toObject(),
+      expectedTx.toObject(),
+      'Should sign txs the same way as middleware created with a private key'
+    )
+    t.equal(middleware.privateKey, undefined, 'Should not expose a key when using a remote signer')
+    t.equal(
+      new SignedTxMiddleware(privateKey).privateKey,
+      privateKey,
+      'Should expose the key of a local signer'
+    )
+
+    try {
+      await new RemoteSigner('http://signer/nope').getPublicKeyAsync()
+      t.fail('Should fail if the signing service fails')
+    } catch (err) {
+      t.ok(/404/.test(err.message), 'Should reject with the signing service error')
+    }
+    ;(axios as any).post = () => Promise.resolve({ data: { signature: 'AAAA' } })
+    try {
+      await signer.signAsync(data)
+      t.fail('Should fail if the signing service returns a malformed signature')
+    } catch (err) {
+      t.ok(/3-byte signature/.test(err.message), 'Should explain what was wrong with the response')
+    }
+  } catch (err) {
+    t.fail(err)
+  }
+  ;(axios as any).get = get
+  ;(axios as any).post = post
+  t.end()
+})
+
+test('Signers in the default tx middleware & LoomProvider', async t => {
+  const get = axios.get
+  const post = axios.post
+  try {
+    const fake = new FakeDAppChainClient()
+    const entries = new Map<string, string>()
+    const contractAddr = fake.registerContract('MapStore', {
+      Set: (ctx, args) => {
+        const entry = MapEntry.deserializeBinary(bufferToProtobufBytes(args))
+        entries.set(entry.getKey(), entry.getValue())
+      }
+    })
+    const privateKey = CryptoUtils.generatePrivateKey()
+    stubSigningService('http://signer', privateKey)
+    const signer = new RemoteSigner('http://signer')
+    const publicKey = CryptoUtils.publicKeyFromPrivateKey(privateKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(publicKey))
+
+    const client = new Client('default', fake)
+    client.txMiddleware = createDefaultTxMiddleware(client, signer)
+    const contract = new Contract({ contractAddr, callerAddr, client })
+    const entry = new MapEntry()
+    entry.setKey('a')
+    entry.setValue('1')
+    await contract.callAsync('Set', entry)
+    await contract.callAsync('Set', entry)
+    t.equal(entries.get('a'), '1', 'Should commit txs signed by the signer')
+    t.equal(
+      await client.getNonceAsync(CryptoUtils.bytesToHex(publicKey)),
+      2,
+      "Should use the signer's public key to look up the nonce"
+    )
+
+    const provider = new LoomProvider(client)
+    t.deepEqual(provider.accountsAddrList, [], 'Should not require a private key')
+    const addrs = await provider.addSignersAsync([signer])
+    t.deepEqual(addrs, [callerAddr.local.toString()], 'Should derive the account from the signer')
+    t.equal(provider.signers.get(addrs[0]), signer, 'Should use the signer for the account')
+    t.deepEqual(provider.accountsAddrList, addrs, 'Should add the account to the account list')
+    t.equal(provider.accounts.size, 0, 'Should not expose a private key for the account')
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  ;(axios as any).get = get
+  ;(axios as any).post = post
+  t.end()
+})
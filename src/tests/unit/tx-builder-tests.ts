@@ -0,0 +1,59 @@
+import test from 'tape'
+import nacl from 'tweetnacl'
+
+import {
+  Address,
+  LocalAddress,
+  CryptoUtils,
+  createContractMethodCallTx,
+  createOfflineTxMiddleware,
+  signTxAsync
+} from '../../index'
+import { NonceTx, SignedTx, Transaction, MessageTx, CallTx, VMType } from '../../proto/loom_pb'
+import { bufferToProtobufBytes } from '../../crypto-utils'
+import { MapEntry } from '../tests_pb'
+
+test('Offline tx signing', async t => {
+  try {
+    const privKey = CryptoUtils.generatePrivateKey()
+    const pubKey = CryptoUtils.publicKeyFromPrivateKey(privKey)
+    const callerAddr = new Address('default', LocalAddress.fromPublicKey(pubKey))
+    const contractAddr = new Address(
+      'default',
+      LocalAddress.fromHexString('0x005B17864f3adbF53b1384F2E6f2120c6652F779')
+    )
+    const msg = new MapEntry()
+    msg.setKey('123')
+    msg.setValue('456')
+
+    const tx = createContractMethodCallTx(callerAddr, contractAddr, 'SetMsg', msg)
+    const txBytes = await signTxAsync(tx, createOfflineTxMiddleware(privKey, 5))
+
+    const signedTx = SignedTx.deserializeBinary(bufferToProtobufBytes(txBytes))
+    t.deepEqual(signedTx.getPublicKey_asU8(), pubKey, 'SignedTx should contain the public key')
+    t.ok(
+      nacl.sign.detached.verify(
+        signedTx.getInner_asU8(),
+        signedTx.getSignature_asU8(),
+        signedTx.getPublicKey_asU8()
+      ),
+      'SignedTx should contain a valid signature'
+    )
+
+    const nonceTx = NonceTx.deserializeBinary(signedTx.getInner_asU8())
+    t.equal(nonceTx.getSequence(), 6, 'NonceTx should contain the next nonce')
+
+    const innerTx = Transaction.deserializeBinary(nonceTx.getInner_asU8())
+    t.equal(innerTx.getId(), 2, 'Transaction should be a call tx')
+    const msgTx = MessageTx.deserializeBinary(innerTx.getData_asU8())
+    t.ok(
+      Address.UmarshalPB(msgTx.getTo()!).equals(contractAddr),
+      'MessageTx should be addressed to the contract'
+    )
+    const callTx = CallTx.deserializeBinary(msgTx.getData_asU8())
+    t.equal(callTx.getVmType(), VMType.PLUGIN, 'CallTx should target the plugin VM')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
@@ -0,0 +1,157 @@
+import test from 'tape'
+
+import { WSRPCClient } from '../../internal/ws-rpc-client'
+import { RPCClientEvent, ConnectionState } from '../../internal/json-rpc-client'
+import { stubWSConnections } from '../helpers'
+
+test('WSRPCClient event topics', t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', { autoConnect: false })
+    t.deepEqual(client.topics, [], 'Should not have any topics initially')
+
+    client.addTopics(['a', 'b'])
+    client.addTopics(['b', 'c'])
+    t.deepEqual(client.topics.sort(), ['a', 'b', 'c'], 'Should add topics')
+
+    client.removeTopics(['b'])
+    t.deepEqual(client.topics.sort(), ['a', 'b', 'c'], 'Should keep topics that are still in use')
+
+    client.removeTopics(['a', 'b', 'd'])
+    t.deepEqual(client.topics, ['c'], 'Should remove topics that are no longer in use')
+
+    client.removeTopics(['c'])
+    t.deepEqual(client.topics, [], 'Should remove the last topic')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('WSRPCClient event topics with unfiltered subscribers', t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', { autoConnect: false })
+    const calls: any[] = []
+    const connections = stubWSConnections(client, (method: string, params: any) => {
+      calls.push([method, params.topics])
+      return Promise.resolve()
+    })
+    client.reconnect()
+    connections[0].open()
+    const messages: any[] = []
+    client.on(RPCClientEvent.Message, (url: string, msg: any) => messages.push(msg))
+
+    client.addTopics(['a'])
+    client.addTopics([])
+    t.deepEqual(client.topics, [], 'Should ignore topics while anyone wants all events')
+    t.deepEqual(
+      calls.slice(-2),
+      [['unsubevents', ['a']], ['subevents', null]],
+      'Should subscribe to all events while anyone wants all events'
+    )
+
+    client.addTopics(['b'])
+    t.deepEqual(client.topics, [], 'Should not narrow the subscription down to new topics')
+
+    client.removeTopics([])
+    t.deepEqual(client.topics.sort(), ['a', 'b'], 'Should filter by topic once no one wants all')
+    t.deepEqual(
+      calls.slice(-2),
+      [['unsubevents', null], ['subevents', ['a', 'b']]],
+      'Should narrow the subscription down once no one wants all events'
+    )
+    client.removeAllListeners(RPCClientEvent.Message)
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('WSRPCClient heartbeat', async t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', {
+      autoConnect: false,
+      heartbeatInterval: 10,
+      maxMissedHeartbeats: 2
+    })
+    let isAlive = true
+    const connections = stubWSConnections(
+      client,
+      () => (isAlive ? Promise.resolve(1) : Promise.reject(new Error('reply timeout')))
+    )
+    client.reconnect()
+    connections[0].open()
+    await new Promise(resolve => setTimeout(resolve, 50))
+    t.equal(typeof client.roundTripTime, 'number', 'Should measure the heartbeat round trip time')
+    t.equal(connections[0].closeCode, undefined, 'Should keep a responsive connection open')
+
+    isAlive = false
+    await new Promise(resolve => setTimeout(resolve, 50))
+    t.equal(
+      connections[0].closeCode,
+      4000,
+      'Should close the connection after too many missed heartbeats'
+    )
+    t.equal(client.connectionState, ConnectionState.Reconnecting, 'Should reconnect')
+    client.disconnect()
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
+
+test('WSRPCClient connection state', async t => {
+  try {
+    const client = new WSRPCClient('ws://localhost', {
+      autoConnect: false,
+      reconnectInterval: 10,
+      maxReconnects: 2
+    })
+    t.equal(client.connectionState, ConnectionState.Closed, 'Should start out closed')
+    const changes: any[] = []
+    client.on(
+      RPCClientEvent.ConnectionStateChanged,
+      (url: string, state: ConnectionState, attempt: number, nextDelay?: number) =>
+        changes.push({ state, attempt, nextDelay })
+    )
+    const errors: any[] = []
+    client.on(RPCClientEvent.Error, (url: string, err: any) => errors.push(err))
+
+    const connections = stubWSConnections(client)
+    client.reconnect()
+    connections[0].open()
+    t.equal(client.connectionState, ConnectionState.Open, 'Should be open once connected')
+
+    client.reconnect()
+    t.equal(
+      connections[0].closeCode,
+      4000,
+      'Should drop the current connection when asked to reconnect'
+    )
+    await new Promise(resolve => setTimeout(resolve, 20))
+    t.equal(connections.length, 2, 'Should open a new connection after the reconnect interval')
+    connections[1].emit('error', new Error('connect ECONNREFUSED'))
+    t.deepEqual(
+      changes,
+      [
+        { state: ConnectionState.Connecting, attempt: 0, nextDelay: undefined },
+        { state: ConnectionState.Open, attempt: 0, nextDelay: undefined },
+        { state: ConnectionState.Reconnecting, attempt: 1, nextDelay: 10 },
+        { state: ConnectionState.Failed, attempt: 2, nextDelay: undefined }
+      ],
+      'Should report reconnection attempts, and give up after the maximum number of attempts'
+    )
+    t.equal(errors.length, 1, 'Should report the failed connection attempt')
+
+    connections[0].emit('close', 1000)
+    t.equal(client.connectionState, ConnectionState.Failed, 'Should ignore dropped connections')
+
+    client.reconnect()
+    connections[2].open()
+    client.disconnect()
+    t.equal(connections[2].closeCode, 1000, 'Should close the connection when disconnecting')
+    t.equal(client.connectionState, ConnectionState.Closed, 'Should be closed after disconnecting')
+  } catch (err) {
+    t.fail(err)
+  }
+  t.end()
+})
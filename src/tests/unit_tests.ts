@@ -1,4 +1,28 @@
 import './unit/address-tests'
 import './unit/big-uint-tests'
+import './unit/errors-tests'
 import './unit/rpc-client-factory-tests'
+import './unit/json-rpc-client-tests'
 import './unit/sparse-merkle-tree-tests'
+import './unit/tx-builder-tests'
+import './unit/nonce-manager-tests'
+import './unit/client-events-tests'
+import './unit/ws-rpc-client-tests'
+import './unit/client-tx-events-tests'
+import './unit/client-tx-result-tests'
+import './unit/client-send-tx-tests'
+import './unit/query-middleware-tests'
+import './unit/query-cache-tests'
+import './unit/request-batcher-tests'
+import './unit/pooled-rpc-client-tests'
+import './unit/retry-policy-tests'
+import './unit/dual-rpc-client-tests'
+import './unit/cancellation-tests'
+import './unit/evm-subscription-registry-tests'
+import './unit/fake-dappchain-client-tests'
+import './unit/rpc-metrics-tests'
+import './unit/rpc-auth-tests'
+import './unit/rate-limiter-tests'
+import './unit/event-poller-tests'
+import './unit/recording-rpc-client-tests'
+import './unit/signer-tests'
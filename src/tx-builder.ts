@@ -0,0 +1,122 @@
+import { Message } from 'google-protobuf'
+
+import { ITxMiddlewareHandler } from './client'
+import {
+  CallTx,
+  ContractMethodCall,
+  DeployTx,
+  EncodingType,
+  MessageTx,
+  Request,
+  Transaction,
+  VMType
+} from './proto/loom_pb'
+import { Address, LocalAddress } from './address'
+
+/**
+ * Creates a tx that calls a method of a Go contract.
+ * @param callerAddr Address of the caller, generated from the public key of the tx signer.
+ * @param contractAddr Address of the contract to call.
+ * @param method Contract method to call.
+ * @param args Arguments to pass to the contract method.
+ * @returns Unsigned tx.
+ */
+export function createContractMethodCallTx(
+  callerAddr: Address,
+  contractAddr: Address,
+  method: string,
+  args: Message
+): Transaction {
+  const methodTx = new ContractMethodCall()
+  methodTx.setMethod(method)
+  methodTx.setArgs(args.serializeBinary())
+
+  const request = new Request()
+  request.setContentType(EncodingType.PROTOBUF3)
+  request.setAccept(EncodingType.PROTOBUF3)
+  request.setBody(methodTx.serializeBinary())
+
+  return createCallTx(callerAddr, contractAddr, VMType.PLUGIN, request.serializeBinary())
+}
+
+/**
+ * Creates a tx that calls a method of an EVM contract.
+ * @param callerAddr Address of the caller, generated from the public key of the tx signer.
+ * @param contractAddr Address of the contract to call.
+ * @param input ABI encoded function signature and input parameters.
+ * @returns Unsigned tx.
+ */
+export function createEvmCallTx(
+  callerAddr: Address,
+  contractAddr: Address,
+  input: Uint8Array
+): Transaction {
+  return createCallTx(callerAddr, contractAddr, VMType.EVM, input)
+}
+
+/**
+ * Creates a tx that deploys a contract to the DAppChain EVM.
+ * @param callerAddr Address of the caller, generated from the public key of the tx signer.
+ * @param code Contract bytecode.
+ * @returns Unsigned tx.
+ */
+export function createEvmDeployTx(callerAddr: Address, code: Uint8Array): Transaction {
+  const deployTx = new DeployTx()
+  deployTx.setVmType(VMType.EVM)
+  deployTx.setCode(code)
+
+  const msgTx = new MessageTx()
+  msgTx.setFrom(callerAddr.MarshalPB())
+  msgTx.setTo(
+    new Address(
+      callerAddr.chainId,
+      LocalAddress.fromHexString('0x0000000000000000000000000000000000000000')
+    ).MarshalPB()
+  )
+  msgTx.setData(deployTx.serializeBinary())
+
+  const tx = new Transaction()
+  tx.setId(1)
+  tx.setData(msgTx.serializeBinary())
+  return tx
+}
+
+/**
+ * Applies the given middleware to a tx, this doesn't require a connection to the DAppChain as long
+ * as none of the middleware does.
+ *
+ * @param tx Transaction to sign.
+ * @param middleware Middleware to apply to the tx, e.g. `createOfflineTxMiddleware()`.
+ * @returns Tx bytes that can be submitted to the DAppChain via `Client.broadcastSignedTxAsync()`.
+ */
+export async function signTxAsync<T extends Message>(
+  tx: T,
+  middleware: ITxMiddlewareHandler[]
+): Promise<Uint8Array> {
+  let txBytes = tx.serializeBinary()
+  for (let i = 0; i < middleware.length; i++) {
+    txBytes = await middleware[i].Handle(txBytes)
+  }
+  return txBytes
+}
+
+function createCallTx(
+  callerAddr: Address,
+  contractAddr: Address,
+  vmType: VMType,
+  input: Uint8Array
+): Transaction {
+  const callTx = new CallTx()
+  callTx.setVmType(vmType)
+  callTx.setInput(input)
+
+  const msgTx = new MessageTx()
+  msgTx.setFrom(callerAddr.MarshalPB())
+  msgTx.setTo(contractAddr.MarshalPB())
+  msgTx.setData(callTx.serializeBinary())
+
+  const tx = new Transaction()
+  tx.setId(2)
+  tx.setData(msgTx.serializeBinary())
+  return tx
+}
@@ -5,11 +5,20 @@ declare module 'rpc-websockets' {
     reconnect?: boolean
     reconnect_interval?: number
     max_reconnects?: number
+    /** Handshake headers, passed through to the ws library, browsers don't support them. */
+    headers?: { [name: string]: string }
+  }
+
+  /** The web socket rpc-websockets wraps, the ws library's WebSocket in Node. */
+  interface ISocket {
+    on(event: string, listener: (...args: any[]) => void): this
   }
 
   export class Client {
     ready: boolean
     reconnect: boolean
+    /** Not part of the public API, only WSConnection should rely on it. */
+    socket: ISocket
 
     constructor(
       address: string,